@@ -0,0 +1,146 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import { Download, MapPin, MousePointerClick, Search, StickyNote, Trash2 } from 'lucide-react';
+import ParsedInput from '@/components/ParsedInput';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import { ANNOTATION_PRESETS, type Annotation } from '@/lib/annotations';
+
+interface AnnotationsPanelProps {
+  // Annotations of the session on screen, in time order
+  annotations: Annotation[];
+  // Label given to annotations added on the chart
+  label: string;
+  onLabelChange: (label: string) => void;
+  isAdding: boolean;
+  onAddingChange: (adding: boolean) => void;
+  // Logger marker rows in the session that aren't annotations yet
+  importable: number;
+  onImport: () => void;
+  onChange: (annotation: Annotation) => void;
+  onRemove: (id: string) => void;
+  onShow: (annotation: Annotation) => void;
+}
+
+// Events noted on the session, added by clicking or dragging on the chart
+const AnnotationsPanel = ({
+  annotations,
+  label,
+  onLabelChange,
+  isAdding,
+  onAddingChange,
+  importable,
+  onImport,
+  onChange,
+  onRemove,
+  onShow
+}: AnnotationsPanelProps) => {
+  const { format } = useTimeFormat();
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 font-medium">
+          <StickyNote className="h-4 w-4 text-primary" />
+          Annotations
+        </span>
+        <Input
+          aria-label="Annotation label"
+          className="w-48"
+          list="annotation-presets"
+          value={label}
+          onChange={event => onLabelChange(event.target.value)}
+        />
+        <datalist id="annotation-presets">
+          {ANNOTATION_PRESETS.map(preset => (
+            <option key={preset} value={preset} />
+          ))}
+        </datalist>
+        <div className="flex flex-wrap gap-2 md:ml-auto">
+          <Toggle
+            variant="outline"
+            size="sm"
+            pressed={isAdding}
+            onPressedChange={onAddingChange}
+            title="Click the chart for a moment, drag for a span"
+          >
+            <MousePointerClick className="mr-2 h-4 w-4" />
+            Add on chart
+          </Toggle>
+          {importable > 0 && (
+            <Button variant="outline" size="sm" onClick={onImport}>
+              <Download className="mr-2 h-4 w-4" />
+              Import {importable} logger marker{importable === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {annotations.length === 0 ? (
+        <p className="text-muted-foreground">
+          Note events such as a window opening or a meeting starting to see them on the chart.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {annotations.map(annotation => (
+            <li key={annotation.id} className="flex flex-wrap items-center gap-2">
+              <MapPin className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <ParsedInput
+                aria-label="Time"
+                className="h-8 w-28 tabular-nums"
+                value={annotation.from}
+                format={format.time}
+                // A span keeps its start at or before its end
+                parse={text => {
+                  const from = format.parseTime(text, annotation.from);
+                  return from !== undefined && from <= (annotation.to ?? from) ? from : undefined;
+                }}
+                onValueChange={from => {
+                  if (from !== annotation.from) onChange({ ...annotation, from });
+                }}
+                commitOnBlur
+              />
+              {annotation.to !== undefined && (
+                <>
+                  <span className="text-muted-foreground">–</span>
+                  <ParsedInput
+                    aria-label="End time"
+                    className="h-8 w-28 tabular-nums"
+                    value={annotation.to}
+                    format={format.time}
+                    parse={text => {
+                      const to = format.parseTime(text, annotation.to ?? annotation.from);
+                      return to !== undefined && to >= annotation.from ? to : undefined;
+                    }}
+                    onValueChange={to => {
+                      if (to !== annotation.to) onChange({ ...annotation, to });
+                    }}
+                    commitOnBlur
+                  />
+                </>
+              )}
+              <ParsedInput
+                aria-label="Label"
+                className="h-8 w-64"
+                value={annotation.label}
+                parse={text => text.trim() || undefined}
+                onValueChange={label => {
+                  if (label !== annotation.label) onChange({ ...annotation, label });
+                }}
+                commitOnBlur
+              />
+              <Button variant="ghost" size="icon" onClick={() => onShow(annotation)} title="Zoom to annotation">
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => onRemove(annotation.id)} title="Delete annotation">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
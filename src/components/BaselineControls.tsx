@@ -0,0 +1,112 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Trees } from 'lucide-react';
+import ParsedInput from '@/components/ParsedInput';
+import {
+  BASELINE_LABELS,
+  DEFAULT_ROLLING,
+  MIN_ROLLING_WINDOW_SECONDS,
+  OUTDOOR_CO2_PPM,
+  type BaselineKind,
+  type BaselineMethod,
+  type BaselineSettings
+} from '@/lib/baseline';
+import { parseNumber } from '@/lib/format';
+
+interface BaselineControlsProps {
+  settings: BaselineSettings;
+  onChange: (settings: BaselineSettings) => void;
+  // Baseline of the session on screen, when there is one
+  level?: number;
+}
+
+// Picks the outdoor CO2 baseline and whether to show CO2 above it
+const BaselineControls = ({ settings, onChange, level }: BaselineControlsProps) => {
+  const { method } = settings;
+  const changeMethod = (updated: BaselineMethod) => onChange({ ...settings, method: updated });
+
+  const changeKind = (kind: BaselineKind) => {
+    if (kind === 'fixed') changeMethod({ kind, ppm: OUTDOOR_CO2_PPM });
+    else if (kind === 'rolling') changeMethod(DEFAULT_ROLLING);
+    else changeMethod({ kind });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Label className="flex items-center gap-1 text-muted-foreground">
+        <Trees className="h-4 w-4" />
+        Outdoor baseline
+      </Label>
+      <Select value={method.kind} onValueChange={value => changeKind(value as BaselineKind)}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(BASELINE_LABELS) as BaselineKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>
+              {BASELINE_LABELS[kind]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {method.kind === 'fixed' && (
+        <div className="flex items-center gap-2">
+          <ParsedInput
+            aria-label="Outdoor CO2"
+            type="number"
+            min={0}
+            className="w-24"
+            value={method.ppm}
+            parse={text => parseNumber(text, { min: 0 })}
+            onValueChange={ppm => changeMethod({ kind: 'fixed', ppm })}
+          />
+          <span className="text-sm text-muted-foreground">ppm</span>
+        </div>
+      )}
+      {method.kind === 'rolling' && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="baseline-percentile" className="text-muted-foreground">
+            P
+          </Label>
+          <ParsedInput
+            id="baseline-percentile"
+            type="number"
+            min={0}
+            max={50}
+            className="w-16"
+            value={method.percentile}
+            parse={text => parseNumber(text, { min: 0, max: 50 })}
+            onValueChange={percentile => changeMethod({ ...method, percentile })}
+          />
+          <Label htmlFor="baseline-window" className="text-muted-foreground">
+            over
+          </Label>
+          <ParsedInput
+            id="baseline-window"
+            type="number"
+            min={MIN_ROLLING_WINDOW_SECONDS / 3600}
+            className="w-16"
+            value={method.windowSeconds / 3600}
+            parse={text => parseNumber(text, { min: MIN_ROLLING_WINDOW_SECONDS / 3600 })}
+            onValueChange={hours => changeMethod({ ...method, windowSeconds: Math.round(hours * 3600) })}
+          />
+          <span className="text-sm text-muted-foreground">h</span>
+        </div>
+      )}
+      {level !== undefined && method.kind !== 'fixed' && (
+        <span className="text-sm text-muted-foreground">≈ {Math.round(level)} ppm</span>
+      )}
+      <div className="flex items-center gap-2">
+        <Switch
+          id="differential"
+          checked={settings.differential}
+          onCheckedChange={differential => onChange({ ...settings, differential })}
+        />
+        <Label htmlFor="differential">CO2 above outdoor</Label>
+      </div>
+    </div>
+  );
+};
+
+export default BaselineControls;
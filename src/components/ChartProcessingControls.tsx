@@ -0,0 +1,102 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Waves } from 'lucide-react';
+import ParsedInput from '@/components/ParsedInput';
+import { parseNumber } from '@/lib/format';
+import type { Aggregate, ProcessingSettings, Smoothing } from '@/lib/resample';
+
+interface ChartProcessingControlsProps {
+  settings: ProcessingSettings;
+  onChange: (settings: ProcessingSettings) => void;
+}
+
+// Resampling intervals offered, in seconds; 0 charts every reading
+const RESAMPLE_INTERVALS: [number, string][] = [
+  [0, 'Every reading'],
+  [60, '1 min'],
+  [5 * 60, '5 min'],
+  [15 * 60, '15 min'],
+  [3600, '1 hour']
+];
+
+const AGGREGATE_LABELS: Record<Aggregate, string> = {
+  mean: 'Mean',
+  min: 'Minimum',
+  max: 'Maximum'
+};
+
+const SMOOTHING_LABELS: Record<Smoothing, string> = {
+  none: 'No smoothing',
+  mean: 'Moving average',
+  median: 'Moving median'
+};
+
+// How the session chart resamples and smooths the readings; analyses and exports are unaffected
+const ChartProcessingControls = ({ settings, onChange }: ChartProcessingControlsProps) => (
+  <div className="flex flex-wrap items-center gap-3">
+    <Label className="flex items-center gap-1 text-muted-foreground">
+      <Waves className="h-4 w-4" />
+      Chart
+    </Label>
+    <Select
+      value={String(settings.resampleSeconds)}
+      onValueChange={value => onChange({ ...settings, resampleSeconds: Number(value) })}
+    >
+      <SelectTrigger className="w-36" aria-label="Resampling interval">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {RESAMPLE_INTERVALS.map(([seconds, label]) => (
+          <SelectItem key={seconds} value={String(seconds)}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    {settings.resampleSeconds > 0 && (
+      <Select value={settings.aggregate} onValueChange={value => onChange({ ...settings, aggregate: value as Aggregate })}>
+        <SelectTrigger className="w-32" aria-label="Value per interval">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(AGGREGATE_LABELS) as Aggregate[]).map(aggregate => (
+            <SelectItem key={aggregate} value={aggregate}>
+              {AGGREGATE_LABELS[aggregate]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+    <Select value={settings.smoothing} onValueChange={value => onChange({ ...settings, smoothing: value as Smoothing })}>
+      <SelectTrigger className="w-40" aria-label="Smoothing">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(SMOOTHING_LABELS) as Smoothing[]).map(smoothing => (
+          <SelectItem key={smoothing} value={smoothing}>
+            {SMOOTHING_LABELS[smoothing]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    {settings.smoothing !== 'none' && (
+      <div className="flex items-center gap-2">
+        <Label htmlFor="smoothing-window" className="text-muted-foreground">
+          over
+        </Label>
+        <ParsedInput
+          id="smoothing-window"
+          type="number"
+          min={1}
+          className="w-16"
+          value={settings.smoothingSeconds / 60}
+          parse={text => parseNumber(text, { above: 0 })}
+          onValueChange={minutes => onChange({ ...settings, smoothingSeconds: Math.max(1, Math.round(minutes * 60)) })}
+        />
+        <span className="text-sm text-muted-foreground">min</span>
+      </div>
+    )}
+  </div>
+);
+
+export default ChartProcessingControls;
@@ -0,0 +1,64 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Clock, Undo2, Wand2 } from 'lucide-react';
+import { clockOffset, DRIFT_WARNING_SECONDS, type ClockCheck, type TimestampIssues } from '@/lib/clock';
+import { formatDuration } from '@/lib/format';
+
+interface ClockIssuesProps {
+  issues: TimestampIssues;
+  check: ClockCheck | null;
+  // Clock offset already added by the time settings
+  shownOffset: number;
+  canCorrect: boolean;
+  isCorrected: boolean;
+  onCorrect: () => void;
+  onUndo: () => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Impossible timestamps in the log and drift of the device clock, with the
+// option to correct the readings
+const ClockIssues = ({ issues, check, shownOffset, canCorrect, isCorrected, onCorrect, onUndo }: ClockIssuesProps) => {
+  const drift = check ? clockOffset(check) - shownOffset : 0;
+  const findings = [
+    issues.tooEarly > 0 && `${plural(issues.tooEarly, 'reading')} dated before 2015, likely after a clock reset`,
+    issues.future > 0 && `${plural(issues.future, 'reading')} dated in the future`,
+    issues.backwards > 0 && `time goes backwards in ${plural(issues.backwards, 'place')}`,
+    Math.abs(drift) > DRIFT_WARNING_SECONDS &&
+      `the Flipper clock is ${formatDuration(Math.abs(drift))} ${drift > 0 ? 'behind' : 'ahead'}`
+  ].filter((finding): finding is string => Boolean(finding));
+
+  return (
+    <Alert>
+      <Clock className="h-4 w-4" />
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <AlertTitle>Logger clock</AlertTitle>
+          <AlertDescription>
+            {findings.length > 0
+              ? `Found ${findings.join(', ')}.`
+              : 'The readings have been corrected for the logger clock.'}
+            {canCorrect && ' Correcting moves the affected readings onto a consistent timeline.'}
+          </AlertDescription>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {isCorrected && (
+            <Button variant="ghost" size="sm" onClick={onUndo}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Undo correction
+            </Button>
+          )}
+          {canCorrect && (
+            <Button variant="outline" size="sm" className="flipper-button" onClick={onCorrect}>
+              <Wand2 className="mr-2 h-4 w-4" />
+              Correct timestamps
+            </Button>
+          )}
+        </div>
+      </div>
+    </Alert>
+  );
+};
+
+export default ClockIssues;
@@ -0,0 +1,57 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2, Wifi, WifiOff } from 'lucide-react';
+import DebugConsole from '@/components/DebugConsole';
+import { useFlipper } from '@/hooks/use-flipper';
+import { STATUS_LABELS } from '@/lib/connection';
+import type { TransportKind } from '@/lib/flipper';
+
+// Transport picker plus connect/disconnect button for the shared Flipper connection
+const ConnectionControls = () => {
+  const { status, isConnected, isConnecting, transportKind, setTransportKind, connect, disconnect } = useFlipper();
+
+  const statusBadge = (
+    <Badge variant={status === 'lost' ? 'destructive' : 'outline'} className="gap-1">
+      {(isConnecting || status === 'busy' || status === 'closing') && <Loader2 className="h-3 w-3 animate-spin" />}
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+
+  if (isConnected || status === 'lost' || status === 'closing') {
+    return (
+      <div className="flex items-center gap-3">
+        <DebugConsole />
+        {statusBadge}
+        <Button variant="outline" className="flipper-button" onClick={disconnect} disabled={status === 'closing'}>
+          <WifiOff className="mr-2 h-4 w-4" />
+          {status === 'lost' ? 'Stop waiting' : 'Disconnect'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <DebugConsole />
+      {statusBadge}
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={transportKind}
+        onValueChange={value => value && setTransportKind(value as TransportKind)}
+        disabled={isConnecting}
+      >
+        <ToggleGroupItem value="cli" title="Text CLI">CLI</ToggleGroupItem>
+        <ToggleGroupItem value="rpc" title="Protobuf RPC with checksums">RPC</ToggleGroupItem>
+      </ToggleGroup>
+      <Button className="flipper-button flipper-glow" onClick={connect} disabled={isConnecting}>
+        <Wifi className="mr-2 h-4 w-4" />
+        {isConnecting ? 'Connecting...' : 'Connect Flipper'}
+      </Button>
+    </div>
+  );
+};
+
+export default ConnectionControls;
@@ -0,0 +1,63 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  QUALITY_FLAG_COLORS,
+  QUALITY_FLAG_LABELS,
+  QUALITY_FLAGS,
+  type SessionQuality
+} from '@/lib/data-quality';
+import { formatDuration } from '@/lib/format';
+
+interface DataQualityProps {
+  quality: SessionQuality;
+  readings: number;
+  excludeFlagged: boolean;
+  onExcludeFlaggedChange: (exclude: boolean) => void;
+}
+
+// Summary of the sensor fault checks on a session, with the colours used on the chart
+const DataQuality = ({ quality, readings, excludeFlagged, onExcludeFlaggedChange }: DataQualityProps) => {
+  const flagged = quality.flags.size;
+  const clean = flagged === 0 && quality.gaps.length === 0;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3 text-sm md:flex-row md:items-center md:justify-between">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        {clean ? (
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <ShieldCheck className="h-4 w-4 text-primary" />
+            No sensor faults or sampling gaps found
+          </span>
+        ) : (
+          <>
+            <span className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4 text-destructive" />
+              {flagged} of {readings} readings flagged
+            </span>
+            {QUALITY_FLAGS.filter(flag => quality.counts[flag] > 0).map(flag => (
+              <span key={flag} className="flex items-center gap-1 text-muted-foreground">
+                <span className="h-2 w-2 rounded-full" style={{ background: QUALITY_FLAG_COLORS[flag] }} />
+                {QUALITY_FLAG_LABELS[flag]}: {quality.counts[flag]}
+              </span>
+            ))}
+            {quality.gaps.length > 0 && (
+              <span className="text-muted-foreground">
+                {quality.gaps.length} sampling gap{quality.gaps.length === 1 ? '' : 's'} (usual interval{' '}
+                {formatDuration(quality.interval)})
+              </span>
+            )}
+          </>
+        )}
+      </div>
+      {flagged > 0 && (
+        <div className="flex shrink-0 items-center gap-2">
+          <Switch id="exclude-flagged" checked={excludeFlagged} onCheckedChange={onExcludeFlaggedChange} />
+          <Label htmlFor="exclude-flagged">Exclude flagged from statistics</Label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQuality;
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState, useSyncExternalStore, type FormEvent } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger
+} from "@/components/ui/drawer";
+import { Download, Send, Terminal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFlipper } from '@/hooks/use-flipper';
+import { downloadBlob } from '@/lib/download';
+import { FlipperCli } from '@/lib/flipper';
+import { toAscii, toHex, type TrafficEntry, type TrafficLog } from '@/lib/traffic-log';
+
+type ByteView = 'ascii' | 'hex';
+
+// Rendering every chunk of a file dump would stall the page; the export has them all
+const VISIBLE_ENTRIES = 500;
+
+const DIRECTION_CLASSES: Record<TrafficEntry['direction'], string> = {
+  tx: 'text-primary',
+  rx: 'text-foreground',
+  note: 'text-muted-foreground italic'
+};
+
+const formatTime = (time: number) => {
+  const date = new Date(time);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+// Scrolling list of captured chunks, subscribed only while the drawer is open
+const TrafficView = ({ traffic, view }: { traffic: TrafficLog; view: ByteView }) => {
+  useSyncExternalStore(traffic.subscribe, traffic.getRevision);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const entries = traffic.entries();
+  const hidden = Math.max(0, entries.length - VISIBLE_ENTRIES);
+  const earlier = traffic.archivedCount + hidden;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  });
+
+  return (
+    <div className="h-80 overflow-y-auto rounded-md border bg-muted/30 p-2 font-mono text-xs">
+      {entries.length === 0 && <p className="text-muted-foreground">Nothing captured yet.</p>}
+      {earlier > 0 && <p className="text-muted-foreground">{earlier} earlier entries only in the export</p>}
+      {entries.slice(hidden).map((entry, i) => (
+        <div key={hidden + i} className={`flex gap-3 ${DIRECTION_CLASSES[entry.direction]}`}>
+          <span className="shrink-0 text-muted-foreground">{formatTime(entry.time)}</span>
+          <span className="w-6 shrink-0 uppercase">{entry.direction === 'note' ? '--' : entry.direction}</span>
+          <span className="break-all whitespace-pre-wrap">
+            {entry.direction === 'note' ? entry.text : view === 'hex' ? toHex(entry.data) : toAscii(entry.data)}
+          </span>
+        </div>
+      ))}
+      <div ref={bottomRef} />
+    </div>
+  );
+};
+
+// Drawer showing every byte exchanged with the Flipper, with a raw CLI prompt
+const DebugConsole = () => {
+  const { transport, isConnected, run, traffic } = useFlipper();
+  const [view, setView] = useState<ByteView>('ascii');
+  const [command, setCommand] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const canSend = isConnected && transport?.kind === 'cli';
+
+  const sendCommand = async (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = command.trim();
+    if (!trimmed) return;
+
+    setIsSending(true);
+    try {
+      // The response shows up in the capture like any other traffic
+      await run((t, options) => {
+        if (!(t instanceof FlipperCli)) throw new Error('Raw commands need a CLI session');
+        return t.sendCommand(trimmed, options);
+      });
+      setCommand('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Command failed');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const exportCapture = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(traffic.export(), `flipper-capture-${stamp}.txt`);
+  };
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button variant="ghost" size="icon" title="Serial debug console">
+          <Terminal className="h-4 w-4" />
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-6xl space-y-3 p-4">
+          <DrawerHeader className="flex flex-row items-center justify-between space-y-0 p-0">
+            <div>
+              <DrawerTitle>Serial traffic</DrawerTitle>
+              <DrawerDescription>Every byte written to and read from the port</DrawerDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={view}
+                onValueChange={value => value && setView(value as ByteView)}
+              >
+                <ToggleGroupItem value="ascii">ASCII</ToggleGroupItem>
+                <ToggleGroupItem value="hex">Hex</ToggleGroupItem>
+              </ToggleGroup>
+              <Button variant="ghost" size="icon" onClick={() => traffic.clear()} title="Clear capture">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={exportCapture} title="Export capture">
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          </DrawerHeader>
+
+          <TrafficView traffic={traffic} view={view} />
+
+          <form className="flex gap-2" onSubmit={sendCommand}>
+            <Input
+              value={command}
+              onChange={event => setCommand(event.target.value)}
+              placeholder={canSend ? 'Raw CLI command, e.g. device_info' : 'Connect over CLI to send commands'}
+              disabled={!canSend || isSending}
+              className="font-mono"
+            />
+            <Button type="submit" variant="outline" disabled={!canSend || isSending || !command.trim()}>
+              <Send className="mr-2 h-4 w-4" />
+              Send
+            </Button>
+          </form>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default DebugConsole;
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useReducer, useRef, useState, type ReactNode } from 'react';
+import { toast } from 'sonner';
+import { FlipperContext } from '@/hooks/flipper-context';
+import { checkClock, clockOffset, DRIFT_WARNING_SECONDS, type ClockCheck } from '@/lib/clock';
+import { nextStatus, type ConnectionStatus } from '@/lib/connection';
+import {
+  CommandQueue,
+  openTransport,
+  type FlipperTransport,
+  type QueuedCommandOptions,
+  type QueuedTask,
+  type TransportKind
+} from '@/lib/flipper';
+import {
+  closeFlipperPort,
+  findGrantedFlippers,
+  isSerialSupported,
+  openFlipperPort,
+  requestFlipperPort,
+  type SerialPort
+} from '@/lib/serial';
+import { formatDuration } from '@/lib/format';
+import { loadSerialSettings, saveSerialSettings, type SerialSettings } from '@/lib/serial-settings';
+import { TrafficLog } from '@/lib/traffic-log';
+
+// Owns the serial port and transport so every page shares one connection
+const FlipperProvider = ({ children }: { children: ReactNode }) => {
+  const [status, dispatch] = useReducer(nextStatus, 'idle');
+  const [port, setPort] = useState<SerialPort | null>(null);
+  const [transport, setTransport] = useState<FlipperTransport | null>(null);
+  const [transportKind, setTransportKind] = useState<TransportKind>('cli');
+  const [traffic] = useState(() => new TrafficLog());
+  const [settings, setSettings] = useState(loadSerialSettings);
+  const [clockCheck, setClockCheck] = useState<ClockCheck | null>(null);
+
+  // Refs mirror state for the serial event listeners and in-flight operations
+  const statusRef = useRef<ConnectionStatus>('idle');
+  const portRef = useRef<SerialPort | null>(null);
+  const transportRef = useRef<FlipperTransport | null>(null);
+  const queueRef = useRef<CommandQueue | null>(null);
+  const transportKindRef = useRef<TransportKind>('cli');
+  const settingsRef = useRef(settings);
+  // Reopen the device when it reappears, until the user disconnects on purpose
+  const autoReconnectRef = useRef(false);
+  const runningRef = useRef(0);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  useEffect(() => {
+    transportKindRef.current = transportKind;
+  }, [transportKind]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // Release the transport's stream locks, then the port itself
+  const release = useCallback(async () => {
+    const openedTransport = transportRef.current;
+    const openedPort = portRef.current;
+    transportRef.current = null;
+    queueRef.current = null;
+    portRef.current = null;
+    runningRef.current = 0;
+    setTransport(null);
+    setPort(null);
+    setClockCheck(null);
+
+    try {
+      await openedTransport?.close();
+    } catch (err) {
+      console.error('Error while closing Flipper Zero session:', err);
+    }
+    if (openedPort) {
+      await closeFlipperPort(openedPort);
+    }
+  }, []);
+
+  // Read the RTC right after connecting, so a drifting or reset clock is
+  // pointed out before any log is looked at
+  const compareClocks = useCallback(async (queue: CommandQueue) => {
+    try {
+      const check = await queue.run((t, options) => checkClock(() => t.dateTime(options)));
+      if (queueRef.current !== queue) return;
+      setClockCheck(check);
+      const offset = clockOffset(check);
+      traffic.note(`Device clock is ${offset} s off the host clock`);
+      if (Math.abs(offset) > DRIFT_WARNING_SECONDS) {
+        toast.warning(`Flipper clock is ${formatDuration(Math.abs(offset))} ${offset > 0 ? 'behind' : 'ahead of'} this computer`);
+      }
+    } catch (err) {
+      console.error('Failed to read the Flipper Zero clock:', err);
+    }
+  }, [traffic]);
+
+  // Open a port and start a CLI or RPC session on it
+  const connectToPort = useCallback(async (target: SerialPort, kind: TransportKind) => {
+    dispatch('open');
+    let streams: Awaited<ReturnType<typeof openFlipperPort>> | undefined;
+    try {
+      streams = await openFlipperPort(target, settingsRef.current);
+      traffic.note(`Port opened at ${settingsRef.current.baudRate} baud, starting ${kind.toUpperCase()} session`);
+      const opened = await openTransport(kind, streams.reader, streams.writer, { onTraffic: traffic.record });
+      const queue = new CommandQueue(opened);
+      portRef.current = target;
+      transportRef.current = opened;
+      queueRef.current = queue;
+      autoReconnectRef.current = true;
+      setPort(target);
+      setTransport(opened);
+      dispatch('opened');
+      toast.success(`Connected to Flipper Zero (${opened.kind.toUpperCase()})`);
+      await compareClocks(queue);
+    } catch (err) {
+      console.error('Failed to connect to Flipper Zero:', err);
+      traffic.note(`Connection failed: ${err instanceof Error ? err.message : String(err)}`);
+      toast.error('Failed to connect to Flipper Zero');
+      await closeFlipperPort(target, streams);
+      dispatch('fail');
+    }
+  }, [compareClocks, traffic]);
+
+  const connect = useCallback(async () => {
+    dispatch('request');
+    const requested = await requestFlipperPort(settingsRef.current.usbFilters);
+    if (requested) {
+      await connectToPort(requested, transportKindRef.current);
+    } else {
+      dispatch('cancel');
+    }
+  }, [connectToPort]);
+
+  const disconnect = useCallback(async () => {
+    autoReconnectRef.current = false;
+    dispatch(statusRef.current === 'lost' ? 'cancel' : 'close');
+    await release();
+    traffic.note('Disconnected');
+    dispatch('closed');
+  }, [release, traffic]);
+
+  const updateSettings = useCallback((updated: SerialSettings) => {
+    saveSerialSettings(updated);
+    setSettings(updated);
+  }, []);
+
+  const run = useCallback(async <T,>(task: QueuedTask<T>, options?: QueuedCommandOptions): Promise<T> => {
+    const queue = queueRef.current;
+    if (!queue) {
+      throw new Error('Flipper Zero is not connected');
+    }
+
+    if (runningRef.current++ === 0) dispatch('begin');
+    try {
+      return await queue.run(task, options);
+    } finally {
+      // A disconnect while the task ran has already reset the counter
+      if (queueRef.current === queue && --runningRef.current === 0) dispatch('end');
+    }
+  }, []);
+
+  // Track the device going away and coming back
+  useEffect(() => {
+    if (!isSerialSupported()) return;
+
+    const onDisconnect = (event: Event) => {
+      if (event.target !== portRef.current) return;
+      dispatch('lose');
+      traffic.note('Device unplugged');
+      toast.error('Flipper Zero disconnected');
+      release();
+    };
+
+    const onConnect = async () => {
+      const canReopen = statusRef.current === 'lost' || (statusRef.current === 'idle' && autoReconnectRef.current);
+      if (!canReopen) return;
+      const [reappeared] = await findGrantedFlippers(settingsRef.current.usbFilters);
+      if (reappeared) {
+        await connectToPort(reappeared, transportKindRef.current);
+      }
+    };
+
+    navigator.serial.addEventListener('disconnect', onDisconnect);
+    navigator.serial.addEventListener('connect', onConnect);
+    return () => {
+      navigator.serial.removeEventListener('disconnect', onDisconnect);
+      navigator.serial.removeEventListener('connect', onConnect);
+    };
+  }, [connectToPort, release, traffic]);
+
+  // Reconnect automatically to a Flipper that was granted in a previous visit
+  useEffect(() => {
+    if (!isSerialSupported()) return;
+    findGrantedFlippers(settingsRef.current.usbFilters).then(ports => {
+      if (ports.length > 0 && statusRef.current === 'idle') {
+        connectToPort(ports[0], transportKindRef.current);
+      }
+    });
+  }, [connectToPort]);
+
+  return (
+    <FlipperContext.Provider
+      value={{
+        status,
+        port,
+        transport,
+        transportKind,
+        setTransportKind,
+        isConnected: status === 'ready' || status === 'busy',
+        isConnecting: status === 'requesting' || status === 'opening',
+        connect,
+        disconnect,
+        run,
+        traffic,
+        settings,
+        updateSettings,
+        clockCheck
+      }}
+    >
+      {children}
+    </FlipperContext.Provider>
+  );
+};
+
+export default FlipperProvider;
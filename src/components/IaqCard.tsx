@@ -0,0 +1,85 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Award } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import {
+  GRADE_SHARE,
+  IAQ_FRAMEWORK_IDS,
+  IAQ_FRAMEWORK_LABELS,
+  type IaqFramework,
+  type IaqFrameworkId,
+  type IaqScore
+} from '@/lib/iaq';
+
+interface IaqCardProps {
+  framework: IaqFramework;
+  score: IaqScore;
+  onFrameworkChange: (id: IaqFrameworkId) => void;
+  showBands: boolean;
+  onShowBandsChange: (show: boolean) => void;
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Time the session spent in each band of an air quality framework, and its grade
+const IaqCard = ({ framework, score, onFrameworkChange, showBands, onShowBandsChange }: IaqCardProps) => (
+  <Card>
+    <CardHeader className="flex flex-col gap-3 space-y-0 md:flex-row md:items-start md:justify-between">
+      <div className="space-y-1.5">
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5 text-primary" />
+          Air quality
+          <Badge style={{ background: score.grade.color }} className="text-black">
+            {score.grade.label}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Best band held for {GRADE_SHARE * 100}% of the time
+          {framework.relative && ', measured as CO2 above outdoor air'}
+        </CardDescription>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id="show-bands" checked={showBands} onCheckedChange={onShowBandsChange} />
+          <Label htmlFor="show-bands">Show on chart</Label>
+        </div>
+        <Select value={framework.id} onValueChange={value => onFrameworkChange(value as IaqFrameworkId)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IAQ_FRAMEWORK_IDS.map(id => (
+              <SelectItem key={id} value={id}>
+                {IAQ_FRAMEWORK_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <div className="flex h-3 overflow-hidden rounded-full bg-secondary">
+        {score.shares.map(({ band, share }) => (
+          <div key={band.label} style={{ width: percent(share), background: band.color }} title={band.label} />
+        ))}
+      </div>
+      <div className="space-y-1 text-sm">
+        {score.shares.map(({ band, seconds, share }) => (
+          <div key={band.label} className="grid grid-cols-[1fr_6rem_4rem] items-center gap-3">
+            <span className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full" style={{ background: band.color }} />
+              {band.label}
+            </span>
+            <span className="text-right tabular-nums text-muted-foreground">{formatDuration(seconds)}</span>
+            <span className="text-right tabular-nums">{percent(share)}</span>
+          </div>
+        ))}
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default IaqCard;
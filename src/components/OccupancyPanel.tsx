@@ -0,0 +1,133 @@
+import { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Users } from 'lucide-react';
+import ParsedInput from '@/components/ParsedInput';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { CO2DataPoint } from '@/lib/co2';
+import { formatDuration, parseNumber } from '@/lib/format';
+import type { OccupancyEstimate, OccupancySettings } from '@/lib/occupancy';
+import { lttb } from '@/lib/resample';
+
+interface OccupancyPanelProps {
+  // Readings in the time span charted above, so the two charts line up
+  data: CO2DataPoint[];
+  estimate: OccupancyEstimate;
+  settings: OccupancySettings;
+  onSettingsChange: (settings: OccupancySettings) => void;
+  // Air change rate from the decay fit, if there is one
+  fittedAch?: number;
+  syncId?: string;
+}
+
+const FIELDS: { key: keyof OccupancySettings; label: string; unit: string; step: number }[] = [
+  { key: 'volumeM3', label: 'Room volume', unit: 'm³', step: 1 },
+  { key: 'ach', label: 'Ventilation', unit: 'ACH', step: 0.1 },
+  { key: 'generationLps', label: 'CO2 per person', unit: 'L/s', step: 0.0001 }
+];
+
+// Estimated headcount over time, from the room and ventilation the user describes
+const OccupancyPanel = ({ data, estimate, settings, onSettingsChange, fittedAch, syncId }: OccupancyPanelProps) => {
+  const { format } = useTimeFormat();
+  const [width, setWidth] = useState(0);
+  // Thinned on the headcount, about one reading per pixel
+  const charted = useMemo(
+    () =>
+      width > 0
+        ? lttb(data, Math.round(width - 80), point => point.timestamp, point => estimate.people.get(point) ?? 0)
+        : data,
+    [data, estimate, width]
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 font-medium">
+          <Users className="h-4 w-4 text-primary" />
+          Occupancy
+        </span>
+        {FIELDS.map(field => (
+          <div key={field.key} className="flex items-center gap-2">
+            <Label htmlFor={`occupancy-${field.key}`} className="text-muted-foreground">
+              {field.label}
+            </Label>
+            <ParsedInput
+              id={`occupancy-${field.key}`}
+              type="number"
+              min={0}
+              step={field.step}
+              className="w-24"
+              value={settings[field.key]}
+              // Ventilation may be zero; the volume and CO2 output may not
+              parse={text => parseNumber(text, field.key === 'ach' ? { min: 0 } : { above: 0 })}
+              onValueChange={value => {
+                if (value !== settings[field.key]) onSettingsChange({ ...settings, [field.key]: value });
+              }}
+              commitOnBlur
+            />
+            <span className="text-muted-foreground">{field.unit}</span>
+          </div>
+        ))}
+        {fittedAch !== undefined && Math.abs(fittedAch - settings.ach) > 0.005 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSettingsChange({ ...settings, ach: Math.round(fittedAch * 100) / 100 })}
+          >
+            Use fitted {fittedAch.toFixed(2)} ACH
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-muted-foreground">
+        <span>
+          Peak <span className="font-semibold text-foreground tabular-nums">{estimate.peak.toFixed(1)}</span> people
+        </span>
+        <span>
+          Occupied for <span className="font-semibold text-foreground">{formatDuration(estimate.occupiedSeconds)}</span>
+        </span>
+        <span>
+          Average while occupied{' '}
+          <span className="font-semibold text-foreground tabular-nums">{estimate.meanOccupied.toFixed(1)}</span>
+        </span>
+        <span>
+          <span className="font-semibold text-foreground tabular-nums">{estimate.personHours.toFixed(1)}</span>{' '}
+          person-hours
+        </span>
+      </div>
+
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%" onResize={setWidth}>
+          <AreaChart data={charted} syncId={syncId} syncMethod="value">
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--secondary))" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={format.time}
+              stroke="hsl(var(--primary))"
+            />
+            <YAxis stroke="hsl(var(--primary))" width={80} allowDecimals={false} />
+            <Tooltip
+              labelFormatter={format.dateTime}
+              formatter={(value: number) => value.toFixed(1)}
+              contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }}
+            />
+            <Area
+              type="monotone"
+              dataKey={(point: CO2DataPoint) => estimate.people.get(point)}
+              name="People"
+              stroke="hsl(190 90% 50%)"
+              fill="hsl(190 90% 50%)"
+              fillOpacity={0.2}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default OccupancyPanel;
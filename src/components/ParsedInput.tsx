@@ -0,0 +1,51 @@
+import { useEffect, useRef, type ComponentProps } from 'react';
+import { Input } from "@/components/ui/input";
+
+interface ParsedInputProps<T>
+  extends Omit<ComponentProps<typeof Input>, 'value' | 'defaultValue' | 'onChange' | 'onBlur'> {
+  value: T;
+  // Text shown for a value
+  format?: (value: T) => string;
+  // The typed value, or undefined while the text isn't a valid one
+  parse: (text: string) => T | undefined;
+  onValueChange: (value: T) => void;
+  // Apply when the field loses focus instead of on every keystroke
+  commitOnBlur?: boolean;
+}
+
+// A field for a setting that can be cleared or half typed without snapping
+// back: it is uncontrolled, and only text that parses reaches `onValueChange`
+const ParsedInput = <T,>({
+  value,
+  format = String,
+  parse,
+  onValueChange,
+  commitOnBlur = false,
+  ...props
+}: ParsedInputProps<T>) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const text = format(value);
+
+  // Show a value set from elsewhere, unless the user is typing in this field
+  useEffect(() => {
+    const input = inputRef.current;
+    if (input && input !== document.activeElement) input.value = text;
+  }, [text]);
+
+  const apply = (typed: string) => {
+    const parsed = parse(typed);
+    if (parsed !== undefined) onValueChange(parsed);
+  };
+
+  return (
+    <Input
+      {...props}
+      ref={inputRef}
+      defaultValue={text}
+      onChange={commitOnBlur ? undefined : event => apply(event.target.value)}
+      onBlur={commitOnBlur ? event => apply(event.target.value) : undefined}
+    />
+  );
+};
+
+export default ParsedInput;
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ChevronDown } from 'lucide-react';
+import type { CsvRejectedRow } from '@/lib/co2-csv';
+
+// A corrupted log can reject every line; the count stays exact
+const MAX_LISTED_ROWS = 200;
+
+// Rows of the log that could not be read, with the line and reason for each
+const RejectedRows = ({ rows }: { rows: CsvRejectedRow[] }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <AlertTitle>
+              {rows.length} row{rows.length === 1 ? '' : 's'} could not be read
+            </AlertTitle>
+            <AlertDescription>These lines of the log file are left out of the sessions.</AlertDescription>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm">
+              {open ? 'Hide' : 'Show'}
+              <ChevronDown className={open ? 'ml-1 h-4 w-4 rotate-180' : 'ml-1 h-4 w-4'} />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+        <CollapsibleContent className="mt-3 max-h-72 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Line</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Content</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, MAX_LISTED_ROWS).map(row => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell>{row.reason}</TableCell>
+                  <TableCell className="font-mono text-xs break-all">{row.text}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > MAX_LISTED_ROWS && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Showing the first {MAX_LISTED_ROWS} of {rows.length}.
+            </p>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </Alert>
+  );
+};
+
+export default RejectedRows;
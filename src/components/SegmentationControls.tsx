@@ -0,0 +1,63 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scissors } from 'lucide-react';
+import ParsedInput from '@/components/ParsedInput';
+import { SESSION_GAP_SECONDS } from '@/lib/co2';
+import { parseNumber } from '@/lib/format';
+import {
+  MIN_SESSION_GAP_SECONDS,
+  SEGMENTATION_LABELS,
+  type SegmentationKind,
+  type SegmentationRule
+} from '@/lib/segmentation';
+
+interface SegmentationControlsProps {
+  rule: SegmentationRule;
+  onChange: (rule: SegmentationRule) => void;
+}
+
+// Picks how the log is split into sessions
+const SegmentationControls = ({ rule, onChange }: SegmentationControlsProps) => {
+  const changeKind = (kind: SegmentationKind) =>
+    onChange(kind === 'gap' ? { kind, gapSeconds: SESSION_GAP_SECONDS } : { kind });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Label className="flex items-center gap-1 text-muted-foreground">
+        <Scissors className="h-4 w-4" />
+        Split sessions by
+      </Label>
+      <Select value={rule.kind} onValueChange={value => changeKind(value as SegmentationKind)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SEGMENTATION_LABELS) as SegmentationKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>
+              {SEGMENTATION_LABELS[kind]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {rule.kind === 'gap' && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="gap-minutes" className="text-muted-foreground">
+            longer than
+          </Label>
+          <ParsedInput
+            id="gap-minutes"
+            type="number"
+            min={MIN_SESSION_GAP_SECONDS / 60}
+            className="w-20"
+            value={rule.gapSeconds / 60}
+            parse={text => parseNumber(text, { min: MIN_SESSION_GAP_SECONDS / 60 })}
+            onValueChange={minutes => onChange({ kind: 'gap', gapSeconds: Math.round(minutes * 60) })}
+          />
+          <span className="text-sm text-muted-foreground">min</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentationControls;
@@ -0,0 +1,450 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  Brush
+} from 'recharts';
+import { ZoomOut } from 'lucide-react';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { Annotation } from '@/lib/annotations';
+import type { CO2DataPoint, SensorChannel, TimeRange } from '@/lib/co2';
+import { QUALITY_FLAG_COLORS, type QualityFlag, type SessionQuality } from '@/lib/data-quality';
+import {
+  downsampleForWidth,
+  intervalStart,
+  nearestReading,
+  processReadings,
+  type ProcessingSettings
+} from '@/lib/resample';
+import { panBy, WHEEL_PAN_SHARE, WHEEL_ZOOM_FACTOR, zoomAround } from '@/lib/zoom';
+
+// Line colours for channels other than CO2, which keeps the primary colour
+const CHANNEL_COLORS = ['hsl(190 90% 50%)', 'hsl(140 70% 50%)', 'hsl(280 70% 65%)', 'hsl(50 90% 55%)', 'hsl(0 80% 60%)'];
+
+// Widths of the CO2 axis and of each channel axis, which the lines don't use
+const CO2_AXIS_WIDTH = 80;
+const CHANNEL_AXIS_WIDTH = 70;
+const ANNOTATION_COLOR = 'hsl(280 70% 65%)';
+// Recharts' default space around the plot
+const CHART_MARGIN = 5;
+
+interface SessionChartProps {
+  // Readings in the time span to chart; fewer readings are charted in more detail
+  data: CO2DataPoint[];
+  channels: SensorChannel[];
+  // Resampling and smoothing, applied before the readings are thinned to the chart's width
+  processing?: ProcessingSettings;
+  animate?: boolean;
+  // Charts sharing this id show their tooltips together
+  syncId?: string;
+  // Flagged readings are marked and sampling gaps shaded
+  quality?: SessionQuality;
+  // Extra lines on the CO2 axis, such as a fitted curve
+  overlays?: ChartOverlay[];
+  // Coloured CO2 ranges behind the lines, such as air quality categories
+  bands?: ChartBand[];
+  // Outdoor CO2 to subtract, to chart CO2 above it
+  baseline?: (timestamp: number) => number;
+  // Shaded range, e.g. the readings an analysis uses
+  selection?: TimeRange;
+  // Marked with a line, or shaded when they span a range
+  annotations?: Annotation[];
+  // The whole session, shown in a strip under the chart for moving the zoomed range
+  overview?: CO2DataPoint[];
+  // Zoomed range, if zoomed in
+  view?: TimeRange;
+  // When set, the chart zooms with the wheel and by dragging; undefined zooms out fully
+  onViewChange?: (view: TimeRange | undefined) => void;
+  // When set, dragging across the chart selects a range instead of zooming; clicks still pick a reading
+  onRangeSelect?: (range: TimeRange) => void;
+  onPointClick?: (point: CO2DataPoint) => void;
+}
+
+export interface ChartBand {
+  label: string;
+  // CO2 range in ppm; open ends reach the edge of the chart
+  from?: number;
+  to?: number;
+  // Time range the band covers, likewise open-ended
+  span?: Partial<TimeRange>;
+  color: string;
+}
+
+export interface ChartOverlay {
+  key: string;
+  name: string;
+  color: string;
+  // Value at a reading; undefined leaves a gap in the line
+  value: (point: CO2DataPoint) => number | undefined;
+}
+
+interface DotProps {
+  key?: string;
+  cx?: number;
+  cy?: number;
+  payload?: CO2DataPoint;
+}
+
+// CO2 over time, with any other logged channels switchable on their own axes
+const SessionChart = ({
+  data,
+  channels,
+  processing,
+  animate = true,
+  syncId,
+  quality,
+  overlays = [],
+  bands = [],
+  baseline,
+  selection,
+  annotations = [],
+  overview,
+  view,
+  onViewChange,
+  onRangeSelect,
+  onPointClick
+}: SessionChartProps) => {
+  const { format } = useTimeFormat();
+  const [visible, setVisible] = useState<string[]>([]);
+  // Range being dragged out while selecting or zooming
+  const [drag, setDrag] = useState<TimeRange | null>(null);
+  // Set when a drag ends, so the click that follows doesn't pick a reading
+  const draggedRef = useRef(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const shown = channels
+    .map((channel, i) => ({ ...channel, color: CHANNEL_COLORS[i % CHANNEL_COLORS.length] }))
+    .filter(channel => visible.includes(channel.key));
+
+  const processed = useMemo(() => (processing ? processReadings(data, processing) : data), [data, processing]);
+  // About one reading per pixel of the plot
+  const channelAxesWidth = shown.length * CHANNEL_AXIS_WIDTH;
+  const plotWidth = width - 2 * CHART_MARGIN - CO2_AXIS_WIDTH - channelAxesWidth;
+  const charted = useMemo(() => downsampleForWidth(processed, plotWidth), [processed, plotWidth]);
+
+  const overviewCharted = useMemo(() => (overview ? downsampleForWidth(overview, plotWidth) : []), [overview, plotWidth]);
+  const extent: TimeRange | undefined =
+    overview && overview.length > 1
+      ? { from: overview[0].timestamp, to: overview[overview.length - 1].timestamp }
+      : undefined;
+  const extentFrom = extent?.from;
+  const extentTo = extent?.to;
+
+  // Wheel zooms around the pointer, sideways or with Shift pans. Listening
+  // natively, as React's wheel events can't keep the page from scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !onViewChange || extentFrom === undefined || extentTo === undefined) return;
+    const extent = { from: extentFrom, to: extentTo };
+
+    const onWheel = (event: WheelEvent) => {
+      const range = view ?? extent;
+      const sideways = event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY);
+      if (sideways) {
+        if (!view) return;
+        event.preventDefault();
+        const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+        onViewChange(panBy(view, extent, Math.sign(delta) * WHEEL_PAN_SHARE));
+        return;
+      }
+      event.preventDefault();
+      const left = container.getBoundingClientRect().left + CHART_MARGIN + CO2_AXIS_WIDTH;
+      const fraction = Math.min(1, Math.max(0, (event.clientX - left) / plotWidth));
+      const at = range.from + (range.to - range.from) * fraction;
+      const factor = event.deltaY > 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR;
+      onViewChange(zoomAround(range, extent, factor, at));
+    };
+
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [view, extentFrom, extentTo, plotWidth, onViewChange]);
+
+  // Brush handles at the zoomed range, within the thinned overview
+  const brushStart = view ? Math.max(0, overviewCharted.findIndex(point => point.timestamp >= view.from)) : 0;
+  const brushEnd = view
+    ? Math.max(brushStart, overviewCharted.filter(point => point.timestamp <= view.to).length - 1)
+    : overviewCharted.length - 1;
+
+  // Flags by the time of the point that charts the reading: its own, or the
+  // start of its interval when resampled. Resampled and smoothed points are
+  // new objects, so they can't be looked up by reading.
+  const resampleSeconds = processing?.resampleSeconds ?? 0;
+  const flagsByTime = useMemo(() => {
+    const flags = new Map<number, QualityFlag>();
+    for (const [point, flag] of quality?.flags ?? []) {
+      const time = resampleSeconds > 0 ? intervalStart(point.timestamp, resampleSeconds) : point.timestamp;
+      if (!flags.has(time)) flags.set(time, flag);
+    }
+    return flags;
+  }, [quality, resampleSeconds]);
+
+  // Only flagged readings get a dot; recharts wants an element for every point
+  const renderDot = ({ key, cx, cy, payload }: DotProps) => {
+    const flag = payload && flagsByTime.get(payload.timestamp);
+    return flag && cx !== undefined && cy !== undefined ? (
+      <circle key={key} cx={cx} cy={cy} r={4} fill={QUALITY_FLAG_COLORS[flag]} stroke="none" />
+    ) : (
+      <g key={key} />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {channels.length > 0 && (
+        <ToggleGroup type="multiple" variant="outline" size="sm" value={visible} onValueChange={setVisible}>
+          {channels.map(channel => (
+            <ToggleGroupItem key={channel.key} value={channel.key}>
+              {channel.label}
+              {channel.unit && <span className="ml-1 text-muted-foreground">({channel.unit})</span>}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+      <div
+        ref={containerRef}
+        className="h-96"
+        onDoubleClick={() => onViewChange?.(undefined)}
+        title={onViewChange ? 'Scroll or drag to zoom, double-click to zoom out' : undefined}
+      >
+        <ResponsiveContainer width="100%" height="100%" onResize={setWidth}>
+          <LineChart
+            data={charted}
+            syncId={syncId}
+            // Charts in sync may thin their readings differently, so they match on time
+            syncMethod="value"
+            onClick={state => {
+              if (draggedRef.current) {
+                draggedRef.current = false;
+                return;
+              }
+              const point = state?.activePayload?.[0]?.payload as CO2DataPoint | undefined;
+              // Edits and annotations work on logged readings, not processed points
+              const reading = point && nearestReading(data, point.timestamp);
+              if (reading) onPointClick?.(reading);
+            }}
+            onMouseDown={state => {
+              if (!(onRangeSelect || onViewChange) || state?.activeLabel === undefined) return;
+              const time = Number(state.activeLabel);
+              setDrag({ from: time, to: time });
+            }}
+            onMouseMove={state => {
+              if (!drag || state?.activeLabel === undefined) return;
+              setDrag({ ...drag, to: Number(state.activeLabel) });
+            }}
+            onMouseUp={() => {
+              if (!drag) return;
+              if (drag.from !== drag.to) {
+                const range = { from: Math.min(drag.from, drag.to), to: Math.max(drag.from, drag.to) };
+                if (onRangeSelect) onRangeSelect(range);
+                else onViewChange?.(range);
+                draggedRef.current = true;
+              }
+              setDrag(null);
+            }}
+            className={onPointClick || onRangeSelect || onViewChange ? 'cursor-crosshair select-none' : undefined}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--secondary))" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={format.time}
+              stroke="hsl(var(--primary))"
+            />
+            <YAxis stroke="hsl(var(--primary))" unit=" ppm" width={CO2_AXIS_WIDTH} />
+            {bands.map(band => (
+              <ReferenceArea
+                key={`${band.label}:${band.span?.from ?? ''}`}
+                x1={band.span?.from}
+                x2={band.span?.to}
+                y1={band.from}
+                y2={band.to}
+                fill={band.color}
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            ))}
+            {shown.map(channel => (
+              <YAxis
+                key={channel.key}
+                yAxisId={channel.key}
+                orientation="right"
+                stroke={channel.color}
+                unit={channel.unit && ` ${channel.unit}`}
+                width={CHANNEL_AXIS_WIDTH}
+              />
+            ))}
+            <Tooltip
+              labelFormatter={format.dateTime}
+              contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }}
+            />
+            {quality?.gaps.map(gap => (
+              <ReferenceArea
+                key={gap.from}
+                x1={gap.from}
+                x2={gap.to}
+                fill="hsl(var(--muted-foreground))"
+                fillOpacity={0.15}
+              />
+            ))}
+            {annotations.map(annotation => {
+              const label = {
+                value: annotation.label,
+                position: 'insideTopLeft' as const,
+                fill: ANNOTATION_COLOR,
+                fontSize: 12
+              };
+              return annotation.to === undefined ? (
+                <ReferenceLine
+                  key={annotation.id}
+                  x={annotation.from}
+                  stroke={ANNOTATION_COLOR}
+                  strokeDasharray="4 2"
+                  label={label}
+                />
+              ) : (
+                <ReferenceArea
+                  key={annotation.id}
+                  x1={annotation.from}
+                  x2={annotation.to}
+                  fill={ANNOTATION_COLOR}
+                  fillOpacity={0.1}
+                  ifOverflow="hidden"
+                  label={label}
+                />
+              );
+            })}
+            {(drag ?? selection) && (
+              <ReferenceArea
+                x1={(drag ?? selection)?.from}
+                x2={(drag ?? selection)?.to}
+                fill="hsl(var(--primary))"
+                fillOpacity={0.1}
+                stroke="hsl(var(--primary))"
+                strokeOpacity={0.4}
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey={baseline ? (point: CO2DataPoint) => point.co2_ppm - baseline(point.timestamp) : 'co2_ppm'}
+              name={baseline ? 'CO2 above outdoor' : 'CO2'}
+              unit=" ppm"
+              stroke="hsl(var(--primary))"
+              dot={flagsByTime.size > 0 ? renderDot : false}
+              isAnimationActive={animate}
+            />
+            {overlays.map(overlay => (
+              <Line
+                key={overlay.key}
+                type="monotone"
+                dataKey={
+                  baseline
+                    ? (point: CO2DataPoint) => {
+                        const value = overlay.value(point);
+                        return value === undefined ? undefined : value - baseline(point.timestamp);
+                      }
+                    : overlay.value
+                }
+                name={overlay.name}
+                unit=" ppm"
+                stroke={overlay.color}
+                strokeDasharray="6 3"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {shown.map(channel => (
+              <Line
+                key={channel.key}
+                yAxisId={channel.key}
+                type="monotone"
+                dataKey={`channels.${channel.key}`}
+                name={channel.label}
+                unit={channel.unit && ` ${channel.unit}`}
+                stroke={channel.color}
+                dot={false}
+                connectNulls
+                isAnimationActive={animate}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {onViewChange && overviewCharted.length > 1 && (
+        <div className="h-12">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={overviewCharted}
+              margin={{
+                top: 4,
+                bottom: 4,
+                left: CHART_MARGIN + CO2_AXIS_WIDTH,
+                right: CHART_MARGIN + channelAxesWidth
+              }}
+            >
+              <Brush
+                dataKey="timestamp"
+                height={40}
+                startIndex={brushStart}
+                endIndex={brushEnd}
+                tickFormatter={format.time}
+                stroke="hsl(var(--primary))"
+                fill="hsl(var(--background))"
+                travellerWidth={8}
+                onChange={({ startIndex, endIndex }) => {
+                  if (startIndex === undefined || endIndex === undefined) return;
+                  onViewChange(
+                    startIndex === 0 && endIndex === overviewCharted.length - 1
+                      ? undefined
+                      : { from: overviewCharted[startIndex].timestamp, to: overviewCharted[endIndex].timestamp }
+                  );
+                }}
+              >
+                <LineChart>
+                  <Line
+                    type="monotone"
+                    dataKey="co2_ppm"
+                    stroke="hsl(var(--primary))"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </Brush>
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {(view || charted.length < data.length) && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {view && (
+            <span>
+              {format.dateTime(view.from)} – {format.dateTime(view.to)}
+            </span>
+          )}
+          {charted.length < data.length && (
+            <span>
+              Charting {charted.length} of {data.length} readings
+            </span>
+          )}
+          {view && (
+            <Button variant="ghost" size="sm" onClick={() => onViewChange?.(undefined)}>
+              <ZoomOut className="mr-2 h-4 w-4" />
+              Zoom out
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionChart;
@@ -0,0 +1,155 @@
+import { useState, type FormEvent } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Merge, Pencil, Scissors, ScissorsLineDashed, Undo2 } from 'lucide-react';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { CO2DataPoint, LoggingSession } from '@/lib/co2';
+import type { SessionDetails } from '@/lib/session-edits';
+
+interface SessionEditorProps {
+  session: LoggingSession;
+  // Reading picked on the chart, if any
+  point: CO2DataPoint | null;
+  isTrimmed: boolean;
+  canMerge: boolean;
+  onSplit: () => void;
+  onTrim: () => void;
+  onResetTrim: () => void;
+  onMerge: () => void;
+  onDetailsChange: (details: SessionDetails) => void;
+}
+
+// Name, location and notes of a session
+const DetailsDialog = ({
+  session,
+  onSave
+}: {
+  session: LoggingSession;
+  onSave: (details: SessionDetails) => void;
+}) => {
+  const { format } = useTimeFormat();
+  const [open, setOpen] = useState(false);
+  const [details, setDetails] = useState<SessionDetails>({});
+
+  const openDialog = (next: boolean) => {
+    if (next) setDetails({ name: session.name, location: session.location, notes: session.notes });
+    setOpen(next);
+  };
+
+  const save = (event: FormEvent) => {
+    event.preventDefault();
+    // Blank fields are not stored
+    onSave({
+      name: details.name?.trim() || undefined,
+      location: details.location?.trim() || undefined,
+      notes: details.notes?.trim() || undefined
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="mr-2 h-4 w-4" />
+          Details
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={save} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Session details</DialogTitle>
+            <DialogDescription>
+              {format.dateTime(session.start)} - {format.dateTime(session.end)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="session-name">Name</Label>
+            <Input
+              id="session-name"
+              value={details.name ?? ''}
+              onChange={event => setDetails({ ...details, name: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-location">Location</Label>
+            <Input
+              id="session-location"
+              value={details.location ?? ''}
+              onChange={event => setDetails({ ...details, location: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-notes">Notes</Label>
+            <Textarea
+              id="session-notes"
+              value={details.notes ?? ''}
+              onChange={event => setDetails({ ...details, notes: event.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" className="flipper-button">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Split, trim, merge and describe the session on screen
+const SessionEditor = ({
+  session,
+  point,
+  isTrimmed,
+  canMerge,
+  onSplit,
+  onTrim,
+  onResetTrim,
+  onMerge,
+  onDetailsChange
+}: SessionEditorProps) => {
+  const { format } = useTimeFormat();
+  const isFirst = point === session.data[0];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-sm text-muted-foreground">
+        {point ? `Picked ${format.time(point.timestamp)}` : 'Click the chart to pick a reading'}
+      </span>
+      <Button variant="outline" size="sm" onClick={onSplit} disabled={!point || isFirst}>
+        <Scissors className="mr-2 h-4 w-4" />
+        Split here
+      </Button>
+      <Button variant="outline" size="sm" onClick={onTrim} disabled={!point || isFirst}>
+        <ScissorsLineDashed className="mr-2 h-4 w-4" />
+        Trim start
+      </Button>
+      {isTrimmed && (
+        <Button variant="ghost" size="sm" onClick={onResetTrim}>
+          <Undo2 className="mr-2 h-4 w-4" />
+          Undo trim
+        </Button>
+      )}
+      <Button variant="outline" size="sm" onClick={onMerge} disabled={!canMerge}>
+        <Merge className="mr-2 h-4 w-4" />
+        Merge with next
+      </Button>
+      <DetailsDialog session={session} onSave={onDetailsChange} />
+    </div>
+  );
+};
+
+export default SessionEditor;
@@ -0,0 +1,129 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Copy, Sigma } from 'lucide-react';
+import { toast } from 'sonner';
+import ParsedInput from '@/components/ParsedInput';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { TimeRange } from '@/lib/co2';
+import { formatDuration } from '@/lib/format';
+import { parseThresholds, PERCENTILES, type SessionStatistics } from '@/lib/statistics';
+
+interface StatisticsCardProps {
+  statistics: SessionStatistics;
+  thresholds: number[];
+  onThresholdsChange: (thresholds: number[]) => void;
+  // Whether flagged readings were left out
+  excludesFlagged?: boolean;
+  // Whether the figures are CO2 above the outdoor baseline
+  differential?: boolean;
+  // Zoomed range the figures cover, when not the whole session
+  range?: TimeRange;
+}
+
+const ppm = (value: number) => `${Math.round(value)} ppm`;
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Label and value of every figure, in the order shown and copied
+const figures = (statistics: SessionStatistics): [string, string][] => [
+  ['Min', ppm(statistics.min)],
+  ['Max', ppm(statistics.max)],
+  ['Mean', ppm(statistics.mean)],
+  ['Time-weighted mean', ppm(statistics.timeWeightedMean)],
+  ['Median', ppm(statistics.median)],
+  ['Std deviation', ppm(statistics.stdDev)],
+  ...PERCENTILES.map((p): [string, string] => [`P${p}`, ppm(statistics.percentiles[p])]),
+  ['Duration', formatDuration(statistics.durationSeconds)],
+  ['Samples', String(statistics.count)],
+  ['Sampling interval', formatDuration(statistics.interval)]
+];
+
+// Summary of the CO2 readings of a session, with time spent above the thresholds
+const StatisticsCard = ({
+  statistics,
+  thresholds,
+  onThresholdsChange,
+  excludesFlagged,
+  differential,
+  range
+}: StatisticsCardProps) => {
+  const { format } = useTimeFormat();
+
+  // Tab-separated, so it pastes into spreadsheet cells
+  const copyToClipboard = async () => {
+    const rows = [
+      ...figures(statistics),
+      ...statistics.above.map(({ ppm: threshold, seconds, share }): [string, string] => [
+        `Time at or above ${threshold} ppm`,
+        `${formatDuration(seconds)}\t${percent(share)}`
+      ])
+    ];
+    try {
+      await navigator.clipboard.writeText(rows.map(row => row.join('\t')).join('\n'));
+      toast.success('Statistics copied');
+    } catch {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Sigma className="h-5 w-5 text-primary" />
+            Statistics
+          </CardTitle>
+          <CardDescription>
+            {differential ? 'CO2 above outdoor air' : 'CO2'}{' '}
+            {range ? `from ${format.dateTime(range.from)} to ${format.dateTime(range.to)}` : 'of this session'}
+            {excludesFlagged && ', without flagged readings'}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={copyToClipboard} title="Copy for a spreadsheet">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+          {figures(statistics).map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs text-muted-foreground">{label}</dt>
+              <dd className="text-lg font-semibold tabular-nums">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Label htmlFor="thresholds" className="text-muted-foreground">
+              Thresholds
+            </Label>
+            <ParsedInput
+              id="thresholds"
+              className="w-48"
+              value={thresholds}
+              format={list => list.join(', ')}
+              parse={parseThresholds}
+              onValueChange={onThresholdsChange}
+            />
+            <span className="text-sm text-muted-foreground">ppm</span>
+          </div>
+          {statistics.above.map(({ ppm: threshold, seconds, share }) => (
+            <div key={threshold} className="grid grid-cols-[6rem_1fr_8rem] items-center gap-3 text-sm">
+              <span className="tabular-nums">≥ {threshold} ppm</span>
+              <Progress value={share * 100} />
+              <span className="text-right tabular-nums text-muted-foreground">
+                {formatDuration(seconds)} · {percent(share)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatisticsCard;
@@ -0,0 +1,20 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { TimeFormatContext } from '@/hooks/time-format-context';
+import { createTimeFormatter, loadTimeSettings, saveTimeSettings, type TimeSettings } from '@/lib/time';
+
+// Shares the time zone, locale and clock correction used to show device times
+const TimeFormatProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState(loadTimeSettings);
+  const format = useMemo(() => createTimeFormatter(settings), [settings]);
+
+  const updateSettings = useCallback((updated: TimeSettings) => {
+    saveTimeSettings(updated);
+    setSettings(updated);
+  }, []);
+
+  return (
+    <TimeFormatContext.Provider value={{ settings, updateSettings, format }}>{children}</TimeFormatContext.Provider>
+  );
+};
+
+export default TimeFormatProvider;
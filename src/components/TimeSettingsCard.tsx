@@ -0,0 +1,146 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toast } from 'sonner';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import { browserTimeZone, createTimeFormatter, LOCALES, TIME_ZONES, type TimeSettings } from '@/lib/time';
+
+// Select items cannot have an empty value, so "follow the browser" gets its own
+const BROWSER = 'browser';
+
+const formSchema = z.object({
+  timeZone: z.string(),
+  locale: z.string(),
+  clockOffsetSeconds: z.coerce.number().int('Whole seconds only')
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const toFormValues = (settings: TimeSettings): FormValues => ({
+  timeZone: settings.timeZone || BROWSER,
+  locale: settings.locale || BROWSER,
+  clockOffsetSeconds: settings.clockOffsetSeconds
+});
+
+const toSettings = (values: FormValues): TimeSettings => ({
+  timeZone: values.timeZone === BROWSER ? '' : values.timeZone,
+  locale: values.locale === BROWSER ? '' : values.locale,
+  clockOffsetSeconds: values.clockOffsetSeconds
+});
+
+// Time zone, locale and clock correction used to show device timestamps
+const TimeSettingsCard = () => {
+  const { settings, updateSettings } = useTimeFormat();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(settings)
+  });
+
+  const values = form.watch();
+  const preview = (() => {
+    const parsed = formSchema.safeParse(values);
+    if (!parsed.success) return undefined;
+    return createTimeFormatter(toSettings(parsed.data)).dateTime(Math.floor(Date.now() / 1000));
+  })();
+
+  const save = (submitted: FormValues) => {
+    updateSettings(toSettings(submitted));
+    form.reset(submitted);
+    toast.success('Time settings saved');
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(save)}>
+        <Card>
+          <CardHeader>
+            <CardTitle>Time</CardTitle>
+            <CardDescription>
+              How timestamps from the logger are shown. A device clock reading of now would appear as {preview ?? '...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time zone</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={BROWSER}>Browser ({browserTimeZone()})</SelectItem>
+                        {TIME_ZONES.map(zone => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="locale"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date format</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={BROWSER}>Browser ({navigator.language})</SelectItem>
+                        {Object.keys(LOCALES).map(locale => (
+                          <SelectItem key={locale} value={locale}>
+                            {locale}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clockOffsetSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Device clock offset (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} />
+                    </FormControl>
+                    <FormDescription>Added to every timestamp; negative if the logger runs ahead.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" className="flipper-button" disabled={!form.formState.isDirty}>
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+    </Form>
+  );
+};
+
+export default TimeSettingsCard;
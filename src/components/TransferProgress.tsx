@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { X } from 'lucide-react';
+import type { TransferStats } from '@/hooks/use-transfer-progress';
+import { formatBytes, formatDuration } from '@/lib/format';
+
+interface TransferProgressProps {
+  label: string;
+  stats: TransferStats;
+  onCancel: () => void;
+}
+
+// Bytes, rows, throughput and ETA of a running file transfer, with a cancel button
+const TransferProgress = ({ label, stats, onCancel }: TransferProgressProps) => {
+  const { received, total, rows, bytesPerSecond, etaSeconds } = stats;
+  const percent = total ? Math.min(100, (received / total) * 100) : 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <span className="truncate text-sm" title={label}>
+            {label}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="mr-1 h-4 w-4" />
+            Cancel
+          </Button>
+        </div>
+        <Progress value={percent} />
+        <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+          <span>
+            {formatBytes(received)}
+            {total !== undefined && ` of ${formatBytes(total)}`}
+          </span>
+          <span>{rows.toLocaleString()} rows</span>
+          <span>{formatBytes(Math.round(bytesPerSecond))}/s</span>
+          <span>{etaSeconds !== undefined ? `ETA ${formatDuration(etaSeconds)}` : 'Waiting for size...'}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransferProgress;
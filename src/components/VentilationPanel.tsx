@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { MousePointerSquareDashed, Wand2, Wind, X } from 'lucide-react';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { DecayFitResult } from '@/lib/ventilation';
+
+interface VentilationPanelProps {
+  // Fit of the selected decay, if one is selected
+  result?: DecayFitResult;
+  // Outdoor CO2 the decay levels off to, from the baseline
+  background: number;
+  isSelecting: boolean;
+  onSelectingChange: (selecting: boolean) => void;
+  onAutoDetect: () => void;
+  onClear: () => void;
+}
+
+// Air change rate fitted to a decay the user drags out on the chart or lets the app find
+const VentilationPanel = ({
+  result,
+  background,
+  isSelecting,
+  onSelectingChange,
+  onAutoDetect,
+  onClear
+}: VentilationPanelProps) => {
+  const { format } = useTimeFormat();
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 font-medium">
+          <Wind className="h-4 w-4 text-primary" />
+          Ventilation
+        </span>
+        <span className="text-muted-foreground">towards {Math.round(background)} ppm outdoor</span>
+        <div className="flex flex-wrap gap-2 md:ml-auto">
+          <Toggle
+            variant="outline"
+            size="sm"
+            pressed={isSelecting}
+            onPressedChange={onSelectingChange}
+            title="Drag across the chart to select a decay"
+          >
+            <MousePointerSquareDashed className="mr-2 h-4 w-4" />
+            Select on chart
+          </Toggle>
+          <Button variant="outline" size="sm" onClick={onAutoDetect}>
+            <Wand2 className="mr-2 h-4 w-4" />
+            Find decay
+          </Button>
+          {result && (
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!result ? (
+        <p className="text-muted-foreground">
+          Select the fall of CO2 after a room empties to estimate its air changes per hour.
+        </p>
+      ) : 'reason' in result ? (
+        <p className="text-muted-foreground">{result.reason}</p>
+      ) : (
+        <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1">
+          <span className="text-lg font-semibold tabular-nums">
+            {result.fit.ach.toFixed(2)} ACH
+          </span>
+          <span className="tabular-nums text-muted-foreground">
+            95% CI {result.fit.low.toFixed(2)}–{result.fit.high.toFixed(2)} h⁻¹
+          </span>
+          <span className="tabular-nums text-muted-foreground">R² {result.fit.rSquared.toFixed(3)}</span>
+          <span className="text-muted-foreground">
+            {result.fit.count} readings, {format.time(result.fit.from)} – {format.time(result.fit.to)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VentilationPanel;
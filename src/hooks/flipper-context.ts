@@ -0,0 +1,32 @@
+import { createContext } from 'react';
+import type { ClockCheck } from '@/lib/clock';
+import type { ConnectionStatus } from '@/lib/connection';
+import type { FlipperTransport, QueuedCommandOptions, QueuedTask, TransportKind } from '@/lib/flipper';
+import type { SerialPort } from '@/lib/serial';
+import type { SerialSettings } from '@/lib/serial-settings';
+import type { TrafficLog } from '@/lib/traffic-log';
+
+// Provided by FlipperProvider, read through useFlipper
+export interface FlipperContextValue {
+  status: ConnectionStatus;
+  port: SerialPort | null;
+  // Changes on every (re)connect; send commands through `run`, never directly
+  transport: FlipperTransport | null;
+  transportKind: TransportKind;
+  setTransportKind: (kind: TransportKind) => void;
+  isConnected: boolean;
+  isConnecting: boolean;
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  // Queue an operation on the transport; the connection is busy while any run
+  run: <T>(task: QueuedTask<T>, options?: QueuedCommandOptions) => Promise<T>;
+  // Capture of all serial traffic, kept across reconnects
+  traffic: TrafficLog;
+  // Port settings; changes apply from the next connection on
+  settings: SerialSettings;
+  updateSettings: (settings: SerialSettings) => void;
+  // Device clock compared with the host's when the connection opened
+  clockCheck: ClockCheck | null;
+}
+
+export const FlipperContext = createContext<FlipperContextValue | null>(null);
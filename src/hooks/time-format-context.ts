@@ -0,0 +1,11 @@
+import { createContext } from 'react';
+import type { TimeFormatter, TimeSettings } from '@/lib/time';
+
+// Provided by TimeFormatProvider, read through useTimeFormat
+export interface TimeFormatContextValue {
+  settings: TimeSettings;
+  updateSettings: (settings: TimeSettings) => void;
+  format: TimeFormatter;
+}
+
+export const TimeFormatContext = createContext<TimeFormatContextValue | null>(null);
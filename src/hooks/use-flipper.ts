@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { FlipperContext } from '@/hooks/flipper-context';
+
+export const useFlipper = () => {
+  const context = useContext(FlipperContext);
+  if (!context) {
+    throw new Error('useFlipper must be used within a FlipperProvider');
+  }
+  return context;
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { TimeFormatContext } from '@/hooks/time-format-context';
+
+export const useTimeFormat = () => {
+  const context = useContext(TimeFormatContext);
+  if (!context) {
+    throw new Error('useTimeFormat must be used within a TimeFormatProvider');
+  }
+  return context;
+};
@@ -0,0 +1,55 @@
+import { useCallback, useRef, useState } from 'react';
+import type { TransferProgress } from '@/lib/flipper';
+
+// Re-render at most this often while chunks stream in
+const RENDER_INTERVAL_MS = 100;
+const NEWLINE = 0x0a;
+
+export interface TransferStats {
+  received: number;
+  total?: number;
+  // Complete lines received so far
+  rows: number;
+  bytesPerSecond: number;
+  // Remaining time at the current rate, when the total is known
+  etaSeconds?: number;
+}
+
+// Turns raw progress reports from a transport into throttled UI stats
+export function useTransferProgress() {
+  const [stats, setStats] = useState<TransferStats | null>(null);
+  const trackerRef = useRef({ startedAt: 0, rows: 0, renderedAt: 0 });
+
+  const start = useCallback(() => {
+    trackerRef.current = { startedAt: performance.now(), rows: 0, renderedAt: 0 };
+    setStats({ received: 0, rows: 0, bytesPerSecond: 0 });
+  }, []);
+
+  const onProgress = useCallback(({ received, total, chunk }: TransferProgress) => {
+    const tracker = trackerRef.current;
+    if (chunk) {
+      for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === NEWLINE) tracker.rows++;
+      }
+    }
+
+    const now = performance.now();
+    const done = total !== undefined && received >= total;
+    if (!done && now - tracker.renderedAt < RENDER_INTERVAL_MS) return;
+    tracker.renderedAt = now;
+
+    const elapsedSeconds = (now - tracker.startedAt) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0 ? received / elapsedSeconds : 0;
+    setStats({
+      received,
+      total,
+      rows: tracker.rows,
+      bytesPerSecond,
+      etaSeconds: total !== undefined && bytesPerSecond > 0 ? (total - received) / bytesPerSecond : undefined
+    });
+  }, []);
+
+  const finish = useCallback(() => setStats(null), []);
+
+  return { stats, start, onProgress, finish };
+}
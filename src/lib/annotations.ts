@@ -0,0 +1,55 @@
+// Notes the user pins to a moment or span of a log, such as "window opened".
+// They are stored with the session edits on the corrected timeline, so they
+// stay put when sessions are split, merged or trimmed.
+
+import { z } from 'zod';
+import type { LogMarker, TimeRange } from '@/lib/co2';
+
+export const annotationSchema = z.object({
+  id: z.string(),
+  from: z.number(),
+  // End of a span; absent for a single moment
+  to: z.number().optional(),
+  label: z.string()
+});
+
+export type Annotation = z.infer<typeof annotationSchema>;
+
+// Suggested labels; any text will do
+export const ANNOTATION_PRESETS = [
+  'Window opened',
+  'Window closed',
+  'Door opened',
+  'Meeting started',
+  'Meeting ended',
+  'HVAC on',
+  'HVAC off'
+];
+
+export const createAnnotation = (label: string, range: TimeRange | number): Annotation =>
+  typeof range === 'number'
+    ? { id: crypto.randomUUID(), from: range, label }
+    : { id: crypto.randomUUID(), from: range.from, to: range.to, label };
+
+// Annotations touching a range, in time order
+export const annotationsIn = (annotations: Annotation[], range: TimeRange) =>
+  annotations
+    .filter(annotation => annotation.from <= range.to && (annotation.to ?? annotation.from) >= range.from)
+    .sort((a, b) => a.from - b.from);
+
+// Label of the marker row an export writes at the end of a span
+export const endMarkerLabel = (annotation: Annotation) => `${annotation.label} (end)`;
+
+const matchesMarker = (annotation: Annotation, marker: LogMarker) =>
+  (annotation.from === marker.timestamp && annotation.label === marker.label) ||
+  (annotation.to === marker.timestamp && endMarkerLabel(annotation) === marker.label);
+
+// Logger marker rows within a range that aren't annotations yet, including
+// those of an exported log loaded again
+export const markersToImport = (markers: LogMarker[], annotations: Annotation[], range: TimeRange) =>
+  markers.filter(
+    marker =>
+      marker.timestamp >= range.from &&
+      marker.timestamp <= range.to &&
+      !annotations.some(annotation => matchesMarker(annotation, marker))
+  );
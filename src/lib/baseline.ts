@@ -0,0 +1,136 @@
+// Outdoor CO2 to measure a session against. Occupants only add to what comes
+// in from outside, so CO2 above this baseline is what the room contributes.
+
+import { z } from 'zod';
+import type { CO2DataPoint } from '@/lib/co2';
+import { percentile } from '@/lib/statistics';
+
+const STORAGE_KEY = 'co2-explorer:baseline';
+
+// Typical outdoor CO2
+export const OUTDOOR_CO2_PPM = 420;
+
+// Narrowest rolling window; shorter ones follow occupancy rather than outdoor air
+export const MIN_ROLLING_WINDOW_SECONDS = 3600;
+
+export const baselineMethodSchema = z.discriminatedUnion('kind', [
+  // A value the user knows, e.g. from an outdoor sensor
+  z.object({ kind: z.literal('fixed'), ppm: z.number().nonnegative() }),
+  // The lowest reading of the session, for rooms that air out completely
+  z.object({ kind: z.literal('minimum') }),
+  // A low percentile over a moving window, following slow outdoor changes
+  z.object({
+    kind: z.literal('rolling'),
+    percentile: z.number().min(0).max(50),
+    windowSeconds: z.number().int().min(MIN_ROLLING_WINDOW_SECONDS)
+  })
+]);
+
+export type BaselineMethod = z.infer<typeof baselineMethodSchema>;
+export type BaselineKind = BaselineMethod['kind'];
+
+export const baselineSettingsSchema = z.object({
+  method: baselineMethodSchema,
+  // Chart and analyse CO2 above the baseline instead of absolute values
+  differential: z.boolean()
+});
+
+export type BaselineSettings = z.infer<typeof baselineSettingsSchema>;
+
+export const DEFAULT_ROLLING: BaselineMethod = { kind: 'rolling', percentile: 5, windowSeconds: 6 * 3600 };
+
+export const DEFAULT_BASELINE: BaselineSettings = {
+  method: { kind: 'fixed', ppm: OUTDOOR_CO2_PPM },
+  differential: false
+};
+
+export const BASELINE_LABELS: Record<BaselineKind, string> = {
+  fixed: 'Fixed value',
+  minimum: 'Session minimum',
+  rolling: 'Rolling low percentile'
+};
+
+// Outdoor CO2 in ppm at a device timestamp
+export type OutdoorLevel = (timestamp: number) => number;
+
+export interface Baseline {
+  at: OutdoorLevel;
+  // A single figure for the session, for analyses that need a constant
+  level: number;
+}
+
+const constant = (ppm: number): Baseline => ({ at: () => ppm, level: ppm });
+
+// The baseline of a differential series, which is already relative to outdoor air
+export const ZERO_BASELINE = constant(0);
+
+// Rolling windows are evaluated at this fraction of their width and interpolated in between
+const ROLLING_STEPS_PER_WINDOW = 12;
+
+const rollingBaseline = (data: CO2DataPoint[], p: number, windowSeconds: number): Baseline => {
+  const step = Math.max(1, Math.round(windowSeconds / ROLLING_STEPS_PER_WINDOW));
+  const first = data[0].timestamp;
+  const last = data[data.length - 1].timestamp;
+  const times: number[] = [];
+  const levels: number[] = [];
+  let lo = 0;
+  let hi = 0;
+
+  for (let time = first; time <= last + step; time += step) {
+    while (lo < data.length && data[lo].timestamp < time - windowSeconds / 2) lo++;
+    while (hi < data.length && data[hi].timestamp <= time + windowSeconds / 2) hi++;
+    if (hi <= lo) continue;
+    const sorted = data
+      .slice(lo, hi)
+      .map(point => point.co2_ppm)
+      .sort((a, b) => a - b);
+    times.push(time);
+    levels.push(percentile(sorted, p));
+  }
+
+  // Called for every reading, so the step is found by binary search
+  const at = (timestamp: number) => {
+    if (timestamp <= times[0]) return levels[0];
+    if (timestamp >= times[times.length - 1]) return levels[levels.length - 1];
+    // First step at or after the timestamp
+    let next = 1;
+    let end = times.length - 1;
+    while (next < end) {
+      const mid = (next + end) >> 1;
+      if (times[mid] < timestamp) next = mid + 1;
+      else end = mid;
+    }
+    const fraction = (timestamp - times[next - 1]) / (times[next] - times[next - 1]);
+    return levels[next - 1] + (levels[next] - levels[next - 1]) * fraction;
+  };
+  return { at, level: percentile([...levels].sort((a, b) => a - b), 50) };
+};
+
+// Baseline of a session from its readings; leave out readings already known to be faulty
+export const computeBaseline = (data: CO2DataPoint[], method: BaselineMethod): Baseline => {
+  if (method.kind === 'fixed' || data.length === 0) {
+    return constant(method.kind === 'fixed' ? method.ppm : OUTDOOR_CO2_PPM);
+  }
+  if (method.kind === 'minimum') {
+    return constant(data.reduce((min, point) => Math.min(min, point.co2_ppm), Infinity));
+  }
+  return rollingBaseline(data, method.percentile, method.windowSeconds);
+};
+
+// Readings as CO2 above the baseline
+export const toDifferential = (data: CO2DataPoint[], baseline: Baseline): CO2DataPoint[] =>
+  data.map(point => ({ ...point, co2_ppm: point.co2_ppm - baseline.at(point.timestamp) }));
+
+export const loadBaselineSettings = (): BaselineSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? baselineSettingsSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_BASELINE;
+  } catch {
+    return DEFAULT_BASELINE;
+  }
+};
+
+export const saveBaselineSettings = (settings: BaselineSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,191 @@
+// Checks on the logger's real-time clock. The Flipper RTC drifts by seconds a
+// day and restarts at 1970 or 2000 after losing its battery, so a log can hold
+// readings that are slowly off, that jump back to a reset date, or that sit
+// in the future. Corrections are kept per log and applied to the raw device
+// timestamps before sessions are cut.
+
+import { z } from 'zod';
+import { samplingInterval, type CO2DataPoint, type LogMarker } from '@/lib/co2';
+
+// Nothing this app reads was logged before 2015
+export const MIN_PLAUSIBLE_TIMESTAMP = Date.UTC(2015, 0, 1) / 1000;
+
+// Drift the user is warned about
+export const DRIFT_WARNING_SECONDS = 60;
+
+// Margin for the device being set to a local time up to UTC+14 when no clock
+// check is at hand
+const FUTURE_SLACK_SECONDS = 14 * 3600;
+
+export interface ClockCheck {
+  // Device RTC and host clock in epoch seconds, read together
+  device: number;
+  host: number;
+}
+
+// Seconds to add to the device clock to get host time
+export const clockOffset = ({ device, host }: ClockCheck) => host - device;
+
+// What the device clock reads now, going by the check
+const deviceNow = (check: ClockCheck) => check.device + (Date.now() / 1000 - check.host);
+
+export const clockCorrectionSchema = z.object({
+  // Range of raw device timestamps the correction applies to
+  from: z.number(),
+  to: z.number(),
+  // Seconds added at `from` and at `to`, interpolated in between
+  offsetFrom: z.number(),
+  offsetTo: z.number()
+});
+
+export type ClockCorrection = z.infer<typeof clockCorrectionSchema>;
+
+const correctWith = (timestamp: number, { from, to, offsetFrom, offsetTo }: ClockCorrection) => {
+  const fraction = to > from ? (timestamp - from) / (to - from) : 0;
+  return Math.round(timestamp + offsetFrom + (offsetTo - offsetFrom) * fraction);
+};
+
+const covers = (correction: ClockCorrection, timestamp: number) =>
+  timestamp >= correction.from && timestamp <= correction.to;
+
+export const correctTimestamp = (timestamp: number, corrections: ClockCorrection[]): number => {
+  const correction = corrections.find(c => covers(c, timestamp));
+  return correction ? correctWith(timestamp, correction) : timestamp;
+};
+
+// Runs before and after a clock change can overlap in raw time, so the
+// corrections, which are in log order, are taken up one after the other: once
+// time goes backwards, the correction used before no longer applies
+export const correctPoints = (points: CO2DataPoint[], corrections: ClockCorrection[]): CO2DataPoint[] => {
+  if (corrections.length === 0) return points;
+  let first = 0;
+  let used = -1;
+  return points.map((point, i) => {
+    if (i > 0 && point.timestamp < points[i - 1].timestamp && used >= 0) first = used + 1;
+    const index = corrections.findIndex((c, k) => k >= first && covers(c, point.timestamp));
+    used = index;
+    if (index < 0) return point;
+    return { ...point, timestamp: correctWith(point.timestamp, corrections[index]), deviceTimestamp: point.timestamp };
+  });
+};
+
+export const correctMarkers = (markers: LogMarker[], corrections: ClockCorrection[]): LogMarker[] =>
+  corrections.length === 0
+    ? markers
+    : markers.map(marker => ({ ...marker, timestamp: correctTimestamp(marker.timestamp, corrections) }));
+
+export interface TimestampIssues {
+  // Readings before MIN_PLAUSIBLE_TIMESTAMP, typically after an RTC reset
+  tooEarly: number;
+  // Readings later than the device or host clock has reached
+  future: number;
+  // Places where a reading is older than the one before it
+  backwards: number;
+}
+
+export const findTimestampIssues = (points: CO2DataPoint[], check?: ClockCheck): TimestampIssues => {
+  const hostNow = Date.now() / 1000;
+  const latest = check ? Math.max(deviceNow(check), hostNow) + DRIFT_WARNING_SECONDS : hostNow + FUTURE_SLACK_SECONDS;
+  const issues: TimestampIssues = { tooEarly: 0, future: 0, backwards: 0 };
+  points.forEach((point, i) => {
+    if (point.timestamp < MIN_PLAUSIBLE_TIMESTAMP) issues.tooEarly++;
+    if (point.timestamp > latest) issues.future++;
+    if (i > 0 && point.timestamp < points[i - 1].timestamp) issues.backwards++;
+  });
+  return issues;
+};
+
+export const hasTimestampIssues = ({ tooEarly, future, backwards }: TimestampIssues) =>
+  tooEarly + future + backwards > 0;
+
+// Stretch of readings logged under one setting of the clock
+interface ClockRun {
+  first: number;
+  last: number;
+  plausible: boolean;
+}
+
+// Runs end where time goes backwards or the clock was set from a reset date
+const findRuns = (points: CO2DataPoint[]): ClockRun[] => {
+  const runs: ClockRun[] = [];
+  let run: ClockRun | undefined;
+  for (const { timestamp } of points) {
+    const plausible = timestamp >= MIN_PLAUSIBLE_TIMESTAMP;
+    if (!run || timestamp < run.last || plausible !== run.plausible) {
+      run = { first: timestamp, last: timestamp, plausible };
+      runs.push(run);
+    } else {
+      run.last = timestamp;
+    }
+  }
+  return runs;
+};
+
+// Correction of a run whose end should have read `end + offset`. A clock
+// that was reset is off by the same amount throughout; one that drifted is
+// taken to have been right at the start of the run.
+const correctRun = (run: ClockRun, end: number, offset: number): ClockCorrection => ({
+  from: run.first,
+  to: end,
+  offsetFrom: run.plausible ? 0 : offset,
+  offsetTo: offset
+});
+
+// Corrections for the raw readings of a log, worked out from the newest run
+// back. The newest run is matched against the host clock when a check is at
+// hand; each earlier one is moved to end just before the next starts, except
+// for readings cut short by an RTC reset, which are left as they are.
+// `shownOffset` is the clock offset the time settings already add on display.
+export const suggestCorrections = (
+  points: CO2DataPoint[],
+  check: ClockCheck | undefined,
+  shownOffset: number
+): ClockCorrection[] => {
+  const runs = findRuns(points);
+  const interval = samplingInterval(points);
+  const corrections: ClockCorrection[] = [];
+  // Corrected start of the run after the current one
+  let nextStart: number | undefined;
+
+  for (let i = runs.length - 1; i >= 0; i--) {
+    const run = runs[i];
+    const next = runs[i + 1];
+    let correction: ClockCorrection | undefined;
+
+    if (!next && check) {
+      const offset = clockOffset(check) - shownOffset;
+      if (Math.abs(offset) > DRIFT_WARNING_SECONDS || !run.plausible) {
+        correction = correctRun(run, Math.max(Math.round(deviceNow(check)), run.last), offset);
+      }
+    } else if (next && nextStart !== undefined && (next.plausible || !run.plausible)) {
+      const offset = nextStart - interval - run.last;
+      if (offset !== 0) correction = correctRun(run, run.last, offset);
+    }
+
+    if (correction) corrections.unshift(correction);
+    nextStart = correction ? correctWith(run.first, correction) : run.first;
+  }
+
+  return corrections;
+};
+
+// Whether applying `suggested` would change anything noticeable over `applied`
+export const isNewCorrection = (suggested: ClockCorrection[], applied: ClockCorrection[]) =>
+  suggested.some(
+    s =>
+      !applied.some(
+        a =>
+          a.from === s.from &&
+          Math.abs(a.offsetFrom - s.offsetFrom) <= DRIFT_WARNING_SECONDS &&
+          Math.abs(a.offsetTo - s.offsetTo) <= DRIFT_WARNING_SECONDS
+      )
+  );
+
+// Read the device clock and the host clock around the same moment
+export const checkClock = async (readDevice: () => Promise<number>): Promise<ClockCheck> => {
+  const before = Date.now();
+  const device = await readDevice();
+  // The RTC has whole seconds; take the host time halfway through the round trip
+  const host = Math.round((before + Date.now()) / 2000);
+  return { device, host };
+};
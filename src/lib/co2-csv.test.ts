@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2DataPoint } from './co2';
+import { CsvLogParser, describeChannel, parseCSV, type ParsedCsv } from './co2-csv';
+
+const LOG = [
+  'Timestamp,"CO2 (ppm)",Temperature (°C),rh_pct',
+  '1700000000,612,21.5,40',
+  '1700000060,"640","21,6",41',
+  '1700000120,MARK,"window ""A"" opened"',
+  'not a time,650,21.7,42',
+  '1700000180,,21.7,42',
+  '',
+  '1700000240,"6',
+  '60",21.8,43',
+  '1700000300,abc,21.8,43',
+  '1700000360',
+  'timestamp,co2,pressure',
+  '1700000420,700,1013.2',
+  '1700000480,710,x'
+].join('\r\n');
+
+// Parse with the bytes handed over in the given pieces, as a serial port would
+const parseInChunks = (bytes: Uint8Array, cuts: number[]): ParsedCsv => {
+  const parser = new CsvLogParser();
+  const points: CO2DataPoint[] = [];
+  let start = 0;
+  for (const cut of [...cuts, bytes.length]) {
+    points.push(...parser.push(bytes.subarray(start, cut)));
+    start = cut;
+  }
+  points.push(...parser.end());
+  const { markers, rejected, columns, channels } = parser;
+  return { points, markers, rejected, columns, channels };
+};
+
+describe('CsvLogParser', () => {
+  const whole = parseCSV(LOG);
+
+  it('reads readings, channels and markers by header name', () => {
+    expect(whole.points).toEqual([
+      { timestamp: 1700000000, co2_ppm: 612, channels: { temperature: 21.5, humidity: 40 } },
+      // A quoted comma is no decimal point, so that cell alone is lost
+      { timestamp: 1700000060, co2_ppm: 640, channels: { humidity: 41 } },
+      { timestamp: 1700000420, co2_ppm: 700, channels: { pressure: 1013.2 } },
+      { timestamp: 1700000480, co2_ppm: 710, channels: {} }
+    ]);
+    expect(whole.markers).toEqual([{ timestamp: 1700000120, label: 'window "A" opened' }]);
+    expect(whole.channels).toEqual([
+      { key: 'temperature', label: 'Temperature', unit: '°C' },
+      { key: 'humidity', label: 'Humidity', unit: '%' },
+      { key: 'pressure', label: 'Pressure', unit: 'hPa' }
+    ]);
+    expect(whole.columns).toEqual({
+      timestamp: 0,
+      co2: 1,
+      channels: [{ key: 'pressure', label: 'Pressure', unit: 'hPa', column: 2 }]
+    });
+  });
+
+  it('reports rejected rows with the line they start on', () => {
+    expect(whole.rejected).toEqual([
+      { line: 5, reason: 'Invalid timestamp "not a time"', text: 'not a time,650,21.7,42' },
+      { line: 6, reason: 'Missing CO2 value', text: '1700000180,,21.7,42' },
+      // A quoted line break belongs to the field
+      { line: 8, reason: 'Invalid CO2 value "6\r\n60"', text: '1700000240,"6\r\n60",21.8,43' },
+      { line: 10, reason: 'Invalid CO2 value "abc"', text: '1700000300,abc,21.8,43' },
+      { line: 11, reason: 'Expected at least 2 columns, got 1', text: '1700000360' }
+    ]);
+  });
+
+  it('gives the same result wherever the input is split', () => {
+    const bytes = new TextEncoder().encode(LOG);
+    for (let cut = 0; cut <= bytes.length; cut++) {
+      expect(parseInChunks(bytes, [cut]), `split at byte ${cut}`).toEqual(whole);
+    }
+    const everyByte = Array.from({ length: bytes.length - 1 }, (_, i) => i + 1);
+    expect(parseInChunks(bytes, everyByte)).toEqual(whole);
+  });
+
+  it('falls back to timestamp and CO2 columns without a header', () => {
+    const parsed = parseCSV('1700000000,612\n1700000060,640');
+    expect(parsed.points.map(point => point.co2_ppm)).toEqual([612, 640]);
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.channels).toEqual([]);
+  });
+
+  it('rejects an unrecognised header once and reads the rows after it', () => {
+    const parsed = parseCSV('when,level\n1700000000,612\n');
+    expect(parsed.rejected).toEqual([
+      { line: 1, reason: 'Unrecognised header: expected timestamp and CO2 columns', text: 'when,level' }
+    ]);
+    expect(parsed.points).toHaveLength(1);
+  });
+
+  it('rejects a quoted field left open at the end', () => {
+    const parsed = parseCSV('1700000000,612\n1700000060,"6');
+    expect(parsed.rejected).toEqual([{ line: 2, reason: 'Unterminated quoted field', text: '1700000060,"6' }]);
+  });
+
+  it('resumes after rows already parsed with their layout and line count', () => {
+    const head = 'time,co2,temp\r\n1700000000,612,21.5\r\n';
+    const { columns } = parseCSV(head);
+    const parser = new CsvLogParser({ columns, linesBefore: 2 });
+    expect(parser.push('1700000060,640,21.6\r\n1700000120,x,21.7\r\n')).toEqual([
+      { timestamp: 1700000060, co2_ppm: 640, channels: { temperature: 21.6 } }
+    ]);
+    expect(parser.rejected).toEqual([{ line: 4, reason: 'Invalid CO2 value "x"', text: '1700000120,x,21.7' }]);
+  });
+});
+
+describe('describeChannel', () => {
+  it.each([
+    ['Temperature (°C)', { key: 'temperature', label: 'Temperature', unit: '°C' }],
+    ['temp_f', { key: 'temperature', label: 'Temperature', unit: '°F' }],
+    ['RH [%]', { key: 'humidity', label: 'Humidity', unit: '%' }],
+    ['voc_ppb', { key: 'voc', label: 'voc', unit: 'ppb' }],
+    ['Light', { key: 'light', label: 'Light', unit: undefined }]
+  ])('reads %s', (header, channel) => {
+    expect(describeChannel(header)).toEqual(channel);
+  });
+});
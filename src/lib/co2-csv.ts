@@ -0,0 +1,311 @@
+// Streaming parser for the logger's CSV files.
+//
+// Chunks can be fed exactly as they come off the serial port: records may be
+// split anywhere, including inside a quoted field or between CR and LF. The
+// column layout comes from a header row when there is one (matched by name,
+// so column order and extra columns don't matter) and falls back to
+// "timestamp,co2" otherwise. Every other named column of a header becomes a
+// channel; files without a header only have CO2. A keyword such as MARK in the
+// CO2 column makes a row a marker instead of a reading. Rows that can't be
+// read are reported, not dropped.
+
+import type { CO2DataPoint, LogMarker, SensorChannel } from '@/lib/co2';
+
+export interface CsvChannelColumn extends SensorChannel {
+  column: number;
+}
+
+export interface CsvColumns {
+  timestamp: number;
+  co2: number;
+  channels: CsvChannelColumn[];
+}
+
+export interface CsvRejectedRow {
+  // 1-based line in the file where the row starts
+  line: number;
+  reason: string;
+  text: string;
+}
+
+export interface CsvParserOptions {
+  // Layout found earlier in the file, when resuming after its header
+  columns?: CsvColumns;
+  // Lines already consumed before the first chunk
+  linesBefore?: number;
+}
+
+const DEFAULT_COLUMNS: CsvColumns = { timestamp: 0, co2: 1, channels: [] };
+
+// Header names are compared lower-case with punctuation removed, so
+// "CO2 (ppm)" and "co2_ppm" both match
+const TIMESTAMP_NAMES = ['timestamp', 'time', 'unixtime', 'epoch', 'ts'];
+const CO2_NAMES = ['co2', 'co2ppm', 'ppm'];
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// CO2 cell of a marker row: "#..." or one of the logger's event keywords
+const MARKER = /^(#|(mark|marker|start|session|event)\b)/i;
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// Sensor quantities common enough to get a fixed key, label and default unit
+const KNOWN_CHANNELS = [
+  { names: ['temperature', 'temp', 't'], key: 'temperature', label: 'Temperature', unit: '°C' },
+  { names: ['humidity', 'hum', 'rh', 'relativehumidity'], key: 'humidity', label: 'Humidity', unit: '%' },
+  { names: ['pressure', 'press'], key: 'pressure', label: 'Pressure', unit: 'hPa' }
+];
+
+// Units spelled as a name suffix, e.g. "temp_c" or "humidity_pct"
+const UNIT_SUFFIXES: Record<string, string> = {
+  c: '°C',
+  degc: '°C',
+  f: '°F',
+  degf: '°F',
+  pct: '%',
+  percent: '%',
+  ppm: 'ppm',
+  ppb: 'ppb',
+  hpa: 'hPa',
+  pa: 'Pa',
+  ugm3: 'µg/m³'
+};
+
+// Key, label and unit of a header such as "Temperature (°C)", "RH [%]" or "temp_c"
+export const describeChannel = (header: string): SensorChannel => {
+  let name = header.trim();
+  let unit: string | undefined;
+
+  const bracketed = /^(.*?)\s*[([]\s*(.+?)\s*[)\]]$/.exec(name);
+  const suffix = /^(.+)_([a-z0-9]+)$/i.exec(name);
+  if (bracketed) {
+    [, name, unit] = bracketed;
+  } else if (suffix && UNIT_SUFFIXES[suffix[2].toLowerCase()]) {
+    name = suffix[1];
+    unit = UNIT_SUFFIXES[suffix[2].toLowerCase()];
+  }
+
+  const normalized = normalizeName(name);
+  const known = KNOWN_CHANNELS.find(channel => channel.names.includes(normalized));
+  return known
+    ? { key: known.key, label: known.label, unit: unit ?? known.unit }
+    : { key: normalized, label: name, unit };
+};
+
+// Column layout of a header row, or undefined when the row isn't a header
+export const detectColumns = (fields: string[]): CsvColumns | undefined => {
+  const names = fields.map(normalizeName);
+  const timestamp = names.findIndex(name => TIMESTAMP_NAMES.includes(name));
+  const co2 = names.findIndex(name => CO2_NAMES.includes(name));
+  if (timestamp === -1 || co2 === -1) return undefined;
+
+  const channels: CsvChannelColumn[] = [];
+  fields.forEach((field, column) => {
+    if (column === timestamp || column === co2 || !field.trim()) return;
+    const channel = describeChannel(field);
+    const key = channel.key || `column${column + 1}`;
+    // Two columns can describe the same quantity, e.g. two temperature probes
+    const unique = channels.some(c => c.key === key) ? `${key}${column + 1}` : key;
+    channels.push({ ...channel, key: unique, column });
+  });
+  return { timestamp, co2, channels };
+};
+
+export class CsvLogParser {
+  readonly rejected: CsvRejectedRow[] = [];
+  readonly markers: LogMarker[] = [];
+  private layout?: CsvColumns;
+  // Every channel seen so far, also across headers written on restarts
+  private readonly seen = new Map<string, SensorChannel>();
+  private readonly decoder = new TextDecoder();
+
+  // Tokenizer state carried across chunks
+  private fields: string[] = [];
+  private field = '';
+  private raw = '';
+  private inQuotes = false;
+  // A quote inside a quoted field: either an escaped "" or the closing quote
+  private quotePending = false;
+  private line: number;
+  private recordLine: number;
+
+  constructor({ columns, linesBefore = 0 }: CsvParserOptions = {}) {
+    if (columns) this.useLayout(columns);
+    this.line = linesBefore + 1;
+    this.recordLine = this.line;
+  }
+
+  get columns(): CsvColumns | undefined {
+    return this.layout;
+  }
+
+  get channels(): SensorChannel[] {
+    return [...this.seen.values()];
+  }
+
+  // Feed the next chunk; returns the points of all records it completed
+  push(chunk: string | Uint8Array): CO2DataPoint[] {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    const points: CO2DataPoint[] = [];
+
+    for (const char of text) {
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          this.raw += char;
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (char === '\n') this.line++;
+      if (this.inQuotes) {
+        this.raw += char;
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        this.endRecord(points);
+        continue;
+      }
+      // Line endings are CRLF on the device; a stray CR is never data
+      if (char === '\r') continue;
+
+      this.raw += char;
+      if (char === ',') {
+        this.fields.push(this.field);
+        this.field = '';
+      } else if (char === '"' && this.field.trim() === '') {
+        this.field = '';
+        this.inQuotes = true;
+      } else {
+        this.field += char;
+      }
+    }
+
+    return points;
+  }
+
+  // Finish a final record that has no line ending
+  end(): CO2DataPoint[] {
+    const points = this.push(this.decoder.decode());
+    if (this.inQuotes && !this.quotePending) {
+      this.reject('Unterminated quoted field');
+      this.reset();
+    } else {
+      this.inQuotes = false;
+      this.quotePending = false;
+      this.endRecord(points);
+    }
+    return points;
+  }
+
+  private endRecord(points: CO2DataPoint[]) {
+    this.fields.push(this.field);
+    const fields = this.fields;
+    const blank = fields.length === 1 && fields[0].trim() === '';
+
+    if (!blank) {
+      const header = detectColumns(fields);
+      if (header) {
+        // Also catches a header written again when the logger restarts
+        this.useLayout(header);
+      } else if (!this.layout && !NUMBER.test(fields[0].trim())) {
+        this.layout = DEFAULT_COLUMNS;
+        this.reject('Unrecognised header: expected timestamp and CO2 columns');
+      } else {
+        this.layout ??= DEFAULT_COLUMNS;
+        const point = this.readPoint(fields, this.layout);
+        if (point) points.push(point);
+      }
+    }
+
+    this.reset();
+  }
+
+  private readPoint(fields: string[], columns: CsvColumns): CO2DataPoint | undefined {
+    const needed = Math.max(columns.timestamp, columns.co2) + 1;
+    if (fields.length < needed) {
+      return this.reject(`Expected at least ${needed} columns, got ${fields.length}`);
+    }
+
+    const timestamp = fields[columns.timestamp].trim();
+    const co2 = fields[columns.co2].trim();
+    if (!timestamp) return this.reject('Missing timestamp');
+    if (!/^\d+(\.\d+)?$/.test(timestamp)) return this.reject(`Invalid timestamp "${timestamp}"`);
+    if (!co2) return this.reject('Missing CO2 value');
+    if (MARKER.test(co2)) return this.readMarker(fields, columns, Math.floor(Number(timestamp)));
+    if (!NUMBER.test(co2)) return this.reject(`Invalid CO2 value "${co2}"`);
+
+    // Other channels are optional per row; a bad cell only loses that value
+    const channels: Record<string, number> = {};
+    for (const { key, column } of columns.channels) {
+      const value = fields[column]?.trim();
+      if (value && NUMBER.test(value)) channels[key] = Number(value);
+    }
+
+    return {
+      timestamp: Math.floor(Number(timestamp)),
+      co2_ppm: Number(co2),
+      channels
+    };
+  }
+
+  // The label is whatever else the row holds, or the keyword on its own
+  private readMarker(fields: string[], columns: CsvColumns, timestamp: number): undefined {
+    const keyword = fields[columns.co2].trim();
+    const rest = fields
+      .filter((_, column) => column !== columns.timestamp && column !== columns.co2)
+      .map(field => field.trim())
+      .filter(Boolean);
+    const label = rest.length > 0 ? rest.join(' ') : keyword.replace(/^#\s*/, '') || keyword;
+    this.markers.push({ timestamp, label });
+    return undefined;
+  }
+
+  private useLayout(columns: CsvColumns) {
+    this.layout = columns;
+    for (const { key, label, unit } of columns.channels) {
+      if (!this.seen.has(key)) this.seen.set(key, { key, label, unit });
+    }
+  }
+
+  private reject(reason: string): undefined {
+    this.rejected.push({ line: this.recordLine, reason, text: this.raw });
+    return undefined;
+  }
+
+  private reset() {
+    this.fields = [];
+    this.field = '';
+    this.raw = '';
+    this.recordLine = this.line;
+  }
+}
+
+export interface ParsedCsv {
+  points: CO2DataPoint[];
+  markers: LogMarker[];
+  rejected: CsvRejectedRow[];
+  columns?: CsvColumns;
+  channels: SensorChannel[];
+}
+
+// Parse a complete CSV text in one go
+export const parseCSV = (text: string, options?: CsvParserOptions): ParsedCsv => {
+  const parser = new CsvLogParser(options);
+  const points = [...parser.push(text), ...parser.end()];
+  return {
+    points,
+    markers: parser.markers,
+    rejected: parser.rejected,
+    columns: parser.columns,
+    channels: parser.channels
+  };
+};
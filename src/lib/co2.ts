@@ -0,0 +1,74 @@
+// A numeric column logged besides the timestamp and CO2, e.g. temperature
+export interface SensorChannel {
+  key: string;
+  label: string;
+  unit?: string;
+}
+
+export interface CO2DataPoint {
+  // Epoch seconds from the device clock, after any clock correction
+  timestamp: number;
+  co2_ppm: number;
+  // Values of the other channels by key; absent where the cell was empty
+  channels: Record<string, number>;
+  // What the device wrote, when a clock correction changed `timestamp`
+  deviceTimestamp?: number;
+}
+
+// Event row written by the logger, e.g. "1700000000,MARK,window opened"
+export interface LogMarker {
+  timestamp: number;
+  label: string;
+}
+
+// Span of device timestamps, both ends included
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+export interface LoggingSession {
+  id: number;
+  // Device timestamp of the first reading before any trim; identifies the
+  // session in user edits, as it stays the same when new rows are appended or
+  // the clock is corrected
+  key: string;
+  // Device timestamps of the first and last reading
+  start: number;
+  end: number;
+  data: CO2DataPoint[];
+  name?: string;
+  location?: string;
+  notes?: string;
+}
+
+// Readings further apart than this start a new session by default (5 minutes)
+export const SESSION_GAP_SECONDS = 300;
+
+// Channels of both lists, in order of first appearance
+export const mergeChannels = (current: SensorChannel[], added: SensorChannel[]): SensorChannel[] => {
+  const known = new Set(current.map(channel => channel.key));
+  return [...current, ...added.filter(channel => !known.has(channel.key))];
+};
+
+// Median time between consecutive readings, in seconds
+export const samplingInterval = (points: CO2DataPoint[], fallback = 60) => {
+  const steps = points
+    .slice(1)
+    .map((point, i) => point.timestamp - points[i].timestamp)
+    .filter(step => step > 0)
+    .sort((a, b) => a - b);
+  return steps.length > 0 ? steps[steps.length >> 1] : fallback;
+};
+
+// Timestamp as the device wrote it, which user edits refer to
+export const deviceTime = (point: CO2DataPoint) => point.deviceTimestamp ?? point.timestamp;
+
+// Session made of consecutive points; `data` must not be empty
+export const toSession = (id: number, data: CO2DataPoint[], key = String(deviceTime(data[0]))): LoggingSession => ({
+  id,
+  key,
+  start: data[0].timestamp,
+  end: data[data.length - 1].timestamp,
+  data
+});
@@ -0,0 +1,40 @@
+// Lifecycle of the shared Flipper connection. Every change goes through
+// `nextStatus`, so an event that makes no sense in the current state (say, a
+// late "opened" after the user already hit disconnect) is simply ignored.
+
+export type ConnectionStatus = 'idle' | 'requesting' | 'opening' | 'ready' | 'busy' | 'lost' | 'closing';
+
+export type ConnectionEvent =
+  | 'request' // user is picking a port
+  | 'cancel' // picker dismissed or reconnect abandoned
+  | 'open' // port chosen or reappeared, opening it
+  | 'opened' // transport session started
+  | 'fail' // opening failed
+  | 'begin' // an operation started using the transport
+  | 'end' // the last running operation finished
+  | 'lose' // device unplugged
+  | 'close' // user asked to disconnect
+  | 'closed'; // port and locks released
+
+const TRANSITIONS: Record<ConnectionStatus, Partial<Record<ConnectionEvent, ConnectionStatus>>> = {
+  idle: { request: 'requesting', open: 'opening' },
+  requesting: { cancel: 'idle', open: 'opening' },
+  opening: { opened: 'ready', fail: 'idle', lose: 'lost', close: 'closing' },
+  ready: { begin: 'busy', lose: 'lost', close: 'closing' },
+  busy: { end: 'ready', lose: 'lost', close: 'closing' },
+  lost: { open: 'opening', cancel: 'idle', close: 'closing' },
+  closing: { closed: 'idle' }
+};
+
+export const nextStatus = (status: ConnectionStatus, event: ConnectionEvent): ConnectionStatus =>
+  TRANSITIONS[status][event] ?? status;
+
+export const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  idle: 'Disconnected',
+  requesting: 'Choosing device',
+  opening: 'Connecting',
+  ready: 'Connected',
+  busy: 'Transferring',
+  lost: 'Connection lost',
+  closing: 'Disconnecting'
+};
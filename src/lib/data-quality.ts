@@ -0,0 +1,111 @@
+// Checks on the readings of a session for sensor faults. Flagged readings are
+// still charted, marked, and can be left out of statistics; the log itself is
+// never changed.
+
+import { samplingInterval, type CO2DataPoint } from '@/lib/co2';
+
+export type QualityFlag = 'range' | 'stuck' | 'spike';
+
+export const QUALITY_FLAGS: QualityFlag[] = ['range', 'stuck', 'spike'];
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  range: 'Out of range',
+  stuck: 'Stuck',
+  spike: 'Spike'
+};
+
+export const QUALITY_FLAG_COLORS: Record<QualityFlag, string> = {
+  range: 'hsl(0 80% 60%)',
+  stuck: 'hsl(40 90% 55%)',
+  spike: 'hsl(280 70% 65%)'
+};
+
+// Outdoor air is above 400 ppm and NDIR sensors top out at 40000; 0 and
+// 65535 are what a failed read comes back as
+export const CO2_MIN_PPM = 300;
+export const CO2_MAX_PPM = 40000;
+
+// A value repeated unchanged for this long means the sensor stopped updating
+export const STUCK_MIN_SECONDS = 30 * 60;
+const STUCK_MIN_READINGS = 5;
+
+// A reading this far off both neighbours, which agree with each other
+export const SPIKE_PPM = 300;
+
+// Steps longer than this many sampling intervals count as gaps
+export const GAP_INTERVALS = 3;
+
+export interface SamplingGap {
+  // Timestamps of the readings on either side
+  from: number;
+  to: number;
+}
+
+export interface SessionQuality {
+  // The first check each flagged reading failed
+  flags: Map<CO2DataPoint, QualityFlag>;
+  counts: Record<QualityFlag, number>;
+  gaps: SamplingGap[];
+  // Typical seconds between readings
+  interval: number;
+}
+
+const inRange = (ppm: number) => ppm >= CO2_MIN_PPM && ppm <= CO2_MAX_PPM;
+
+// Runs of identical values long enough to be a stuck sensor
+const findStuck = (data: CO2DataPoint[]): CO2DataPoint[] => {
+  const stuck: CO2DataPoint[] = [];
+  let start = 0;
+  for (let i = 1; i <= data.length; i++) {
+    if (i < data.length && data[i].co2_ppm === data[start].co2_ppm) continue;
+    const run = data.slice(start, i);
+    if (run.length >= STUCK_MIN_READINGS && run[run.length - 1].timestamp - run[0].timestamp >= STUCK_MIN_SECONDS) {
+      stuck.push(...run);
+    }
+    start = i;
+  }
+  return stuck;
+};
+
+const isSpike = (previous: CO2DataPoint, point: CO2DataPoint, next: CO2DataPoint) => {
+  const rise = point.co2_ppm - previous.co2_ppm;
+  const fall = point.co2_ppm - next.co2_ppm;
+  return (
+    Math.abs(rise) > SPIKE_PPM &&
+    Math.abs(fall) > SPIKE_PPM &&
+    Math.sign(rise) === Math.sign(fall) &&
+    Math.abs(next.co2_ppm - previous.co2_ppm) < SPIKE_PPM / 2
+  );
+};
+
+export const checkQuality = (data: CO2DataPoint[]): SessionQuality => {
+  const flags = new Map<CO2DataPoint, QualityFlag>();
+  const flag = (point: CO2DataPoint, reason: QualityFlag) => {
+    if (!flags.has(point)) flags.set(point, reason);
+  };
+
+  for (const point of data) {
+    if (!inRange(point.co2_ppm)) flag(point, 'range');
+  }
+  for (const point of findStuck(data)) flag(point, 'stuck');
+  for (let i = 1; i < data.length - 1; i++) {
+    if (isSpike(data[i - 1], data[i], data[i + 1])) flag(data[i], 'spike');
+  }
+
+  const interval = samplingInterval(data);
+  const gaps: SamplingGap[] = [];
+  for (let i = 1; i < data.length; i++) {
+    if (data[i].timestamp - data[i - 1].timestamp > interval * GAP_INTERVALS) {
+      gaps.push({ from: data[i - 1].timestamp, to: data[i].timestamp });
+    }
+  }
+
+  const counts: Record<QualityFlag, number> = { range: 0, stuck: 0, spike: 0 };
+  for (const reason of flags.values()) counts[reason]++;
+
+  return { flags, counts, gaps, interval };
+};
+
+// Readings to base statistics on
+export const usableReadings = (data: CO2DataPoint[], quality: SessionQuality, excludeFlagged: boolean) =>
+  excludeFlagged && quality.flags.size > 0 ? data.filter(point => !quality.flags.has(point)) : data;
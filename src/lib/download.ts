@@ -0,0 +1,13 @@
+// Save a blob as a file through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Save text as a file through a temporary download link
+export const downloadText = (text: string, fileName: string, type = 'text/plain') =>
+  downloadBlob(new Blob([text], { type }), fileName);
@@ -0,0 +1,160 @@
+import { FlipperError, type TransferProgress } from './transport';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export type TrafficDirection = 'tx' | 'rx';
+
+export interface SerialChannelOptions {
+  // Maximum time to wait for the next chunk from the device
+  timeoutMs?: number;
+  // Sees every chunk written to and read from the port
+  onTraffic?: (direction: TrafficDirection, data: Uint8Array) => void;
+}
+
+// Buffered byte channel over the reader/writer pair of a serial port. Both the
+// text CLI and the protobuf RPC session frame their responses on top of it.
+export class SerialChannel {
+  private readonly encoder = new TextEncoder();
+  // Default wait for the next chunk; reads can allow longer where the device is known to be busy
+  readonly timeoutMs: number;
+  private readonly onTraffic?: SerialChannelOptions['onTraffic'];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+  private pendingRead: Promise<ReadableStreamReadResult<Uint8Array>> | null = null;
+
+  constructor(
+    private readonly reader: ReadableStreamDefaultReader<Uint8Array>,
+    private readonly writer: WritableStreamDefaultWriter<Uint8Array>,
+    options: SerialChannelOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.onTraffic = options.onTraffic;
+  }
+
+  async write(data: string | Uint8Array): Promise<void> {
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+    this.onTraffic?.('tx', bytes);
+    await this.writer.write(bytes);
+  }
+
+  // Drop everything received so far
+  discard() {
+    this.length = 0;
+  }
+
+  // Read up to a marker, consuming the marker and returning what came before it
+  async readUntil(marker: string, signal?: AbortSignal, timeoutMs?: number): Promise<Uint8Array> {
+    const needle = this.encoder.encode(marker);
+    let index = indexOf(this.buffer, needle, 0, this.length);
+    while (index === -1) {
+      const searched = Math.max(0, this.length - needle.length + 1);
+      await this.pull(signal, timeoutMs);
+      index = indexOf(this.buffer, needle, searched, this.length);
+    }
+    const head = this.take(index);
+    this.take(needle.length);
+    return head;
+  }
+
+  async readExactly(
+    size: number,
+    signal?: AbortSignal,
+    onProgress?: (progress: TransferProgress) => void,
+    timeoutMs?: number
+  ): Promise<Uint8Array> {
+    // Bytes that arrived together with the previous response count too
+    let reported = 0;
+    const report = () => {
+      const received = Math.min(this.length, size);
+      if (received <= reported) return;
+      onProgress?.({ received, total: size, chunk: this.buffer.slice(reported, received) });
+      reported = received;
+    };
+
+    report();
+    while (this.length < size) {
+      try {
+        await this.pull(signal, timeoutMs);
+        report();
+      } catch (err) {
+        if (signal?.aborted) throw signal.reason;
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new FlipperError(`Transfer truncated: received ${this.length} of ${size} bytes (${reason})`);
+      }
+    }
+    return this.take(size);
+  }
+
+  // Stop reading and hand the stream locks back to the port
+  async close(): Promise<void> {
+    await this.reader.cancel().catch(() => undefined);
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+  }
+
+  // Remove and return the first `count` buffered bytes
+  private take(count: number): Uint8Array {
+    const head = this.buffer.slice(0, count);
+    this.buffer.copyWithin(0, count, this.length);
+    this.length -= count;
+    return head;
+  }
+
+  // Append the next chunk from the device to the buffer. A read that loses the
+  // race against the timeout or an abort is kept and awaited again next time,
+  // so no chunk is ever dropped.
+  private async pull(signal?: AbortSignal, timeoutMs = this.timeoutMs) {
+    signal?.throwIfAborted();
+    if (!this.pendingRead) {
+      this.pendingRead = this.reader.read();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new FlipperError(`No response from device after ${timeoutMs} ms`)),
+        timeoutMs
+      );
+    });
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const result = await Promise.race([this.pendingRead, timeout, aborted]);
+      this.pendingRead = null;
+      if (result.done || !result.value) {
+        throw new FlipperError('Serial stream closed');
+      }
+      this.onTraffic?.('rx', result.value);
+      this.append(result.value);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private append(chunk: Uint8Array) {
+    const required = this.length + chunk.length;
+    if (required > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(required, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(chunk, this.length);
+    this.length = required;
+  }
+}
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array, from: number, end: number): number => {
+  outer: for (let i = from; i <= end - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { FlipperCli, FlipperCliError } from './cli';
+import { FakeFlipper, type FakeCommandHandler } from './fake-flipper';
+import { CommandQueue } from './queue';
+import { FlipperError } from './transport';
+
+const FILE = '1700000000,612\r\n1700000060,640\r\n>: not a prompt\r\n';
+
+const handler: FakeCommandHandler = command => {
+  if (command === 'device_info') return 'hardware_name    : Abcd1\r\nfirmware_version : 0.98.3';
+  if (command === 'storage read /ext/log.csv') return `Size: ${new TextEncoder().encode(FILE).length}\r\n${FILE}`;
+  if (command === 'storage read /ext/missing.csv') return 'Storage error: file/dir not exist';
+  if (command === 'hang') return undefined;
+  return `unknown command: ${command}`;
+};
+
+const connect = async (options: { chunkSize?: number; timeoutMs?: number } = {}) => {
+  const device = new FakeFlipper(handler, options);
+  device.send('Welcome to Flipper Zero Command Line Interface!\r\n\r\n>: ');
+  const cli = new FlipperCli(device.reader, device.writer, { timeoutMs: options.timeoutMs ?? 200 });
+  await cli.start();
+  return { device, cli };
+};
+
+describe('FlipperCli', () => {
+  it('waits for the prompt and strips the echo from output', async () => {
+    const { cli } = await connect({ chunkSize: 1 });
+    expect(await cli.deviceInfo()).toEqual({ hardware_name: 'Abcd1', firmware_version: '0.98.3' });
+  });
+
+  it('reads exactly the size from the header, even when the data looks like a prompt', async () => {
+    const { cli } = await connect();
+    const progress: number[] = [];
+    const data = await cli.readFile('/ext/log.csv', { onProgress: ({ received }) => progress.push(received) });
+    expect(new TextDecoder().decode(data)).toBe(FILE);
+    expect(progress[progress.length - 1]).toBe(data.length);
+    // The session is still in step afterwards
+    expect((await cli.deviceInfo()).hardware_name).toBe('Abcd1');
+  });
+
+  it('reports a storage error instead of a size and stays usable', async () => {
+    const { cli } = await connect();
+    await expect(cli.readFile('/ext/missing.csv')).rejects.toThrow(FlipperCliError);
+    expect((await cli.deviceInfo()).hardware_name).toBe('Abcd1');
+  });
+
+  it('times out when the device goes quiet', async () => {
+    const { cli } = await connect({ timeoutMs: 50 });
+    await expect(cli.sendCommand('hang')).rejects.toThrow(/No response from device after 50 ms/);
+  });
+
+  it('recovers at a prompt after an interrupted command', async () => {
+    const { cli } = await connect({ timeoutMs: 50 });
+    await expect(cli.sendCommand('hang')).rejects.toThrow(FlipperError);
+    await cli.recover();
+    expect((await cli.deviceInfo()).hardware_name).toBe('Abcd1');
+  });
+});
+
+describe('CommandQueue', () => {
+  it('recovers the transport before the command after a failure', async () => {
+    const { device, cli } = await connect({ timeoutMs: 50 });
+    const queue = new CommandQueue(cli);
+    await expect(queue.run(transport => (transport as FlipperCli).sendCommand('hang'))).rejects.toThrow(
+      FlipperError
+    );
+    expect(await queue.run(transport => transport.deviceInfo())).toHaveProperty('hardware_name', 'Abcd1');
+    expect(device.commands).toEqual(['hang', 'device_info']);
+  });
+
+  it('does not recover after an error the device reported', async () => {
+    const { cli } = await connect();
+    const queue = new CommandQueue(cli);
+    let recovered = false;
+    const recover = cli.recover.bind(cli);
+    cli.recover = async () => {
+      recovered = true;
+      await recover();
+    };
+    await expect(queue.run(transport => transport.readFile('/ext/missing.csv'))).rejects.toThrow(FlipperCliError);
+    await queue.run(transport => transport.deviceInfo());
+    expect(recovered).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+// Text CLI session for a Flipper Zero over its CDC serial port.
+//
+// The Flipper shell echoes every typed character, runs the command on CR and
+// then prints "\r\n>: " once it is ready for the next one. Responses are
+// framed by the echo and the prompt instead of by read timing.
+
+import { SerialChannel, type SerialChannelOptions } from './channel';
+import {
+  baseName,
+  checksumTimeoutMs,
+  FlipperError,
+  type CommandOptions,
+  type FlipperDirEntry,
+  type FlipperTransport
+} from './transport';
+
+const PROMPT = '\r\n>: ';
+const PROMPT_MARK = '>: ';
+const CRLF = '\r\n';
+const CTRL_C = '\x03';
+
+export class FlipperCliError extends FlipperError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlipperCliError';
+  }
+}
+
+export type FlipperCliOptions = SerialChannelOptions;
+
+export class FlipperCli implements FlipperTransport {
+  readonly kind = 'cli';
+  private readonly decoder = new TextDecoder();
+  private readonly channel: SerialChannel;
+
+  constructor(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    writer: WritableStreamDefaultWriter<Uint8Array>,
+    options: FlipperCliOptions = {}
+  ) {
+    this.channel = new SerialChannel(reader, writer, options);
+  }
+
+  // Wake the shell up and wait until it is sitting at a prompt
+  async start(): Promise<void> {
+    await this.channel.write('\r');
+    await this.channel.readUntil(PROMPT);
+    this.channel.discard();
+  }
+
+  // Run a command and return its output without the echo and prompt
+  async sendCommand(command: string, { signal }: CommandOptions = {}): Promise<string> {
+    await this.writeCommand(command, signal);
+    return this.decoder.decode(await this.channel.readUntil(PROMPT, signal));
+  }
+
+  // Read a whole file using the "Size: N" header printed by `storage read`
+  async readFile(path: string, { signal, onProgress }: CommandOptions = {}): Promise<Uint8Array> {
+    await this.writeCommand(`storage read ${quotePath(path)}`, signal);
+
+    const header = this.decoder.decode(await this.channel.readUntil(CRLF, signal));
+    const match = /^Size: (\d+)$/.exec(header.trim());
+    if (!match) {
+      // The header line already consumed the CRLF in front of the prompt
+      const rest = this.decoder.decode(await this.channel.readUntil(PROMPT_MARK, signal));
+      throw new FlipperCliError(`Cannot read ${path}: ${(header + CRLF + rest).trim()}`);
+    }
+
+    const size = Number(match[1]);
+    onProgress?.({ received: 0, total: size });
+    const data = await this.channel.readExactly(size, signal, onProgress);
+    await this.channel.readUntil(PROMPT, signal);
+    return data;
+  }
+
+  // List a directory using `storage list`
+  async listDir(path: string, options?: CommandOptions): Promise<FlipperDirEntry[]> {
+    const output = await this.sendCommand(`storage list ${quotePath(path)}`, options);
+    return parseDirListing(path, output);
+  }
+
+  // Stat a file or directory using `storage stat`
+  async stat(path: string, options?: CommandOptions): Promise<FlipperDirEntry> {
+    const output = (await this.sendCommand(`storage stat ${quotePath(path)}`, options)).trim();
+    if (output.startsWith('Storage error')) {
+      throw new FlipperCliError(`Cannot stat ${path}: ${output}`);
+    }
+
+    const size = /size: (\d+)/.exec(output);
+    return output.startsWith('File')
+      ? { name: baseName(path), type: 'file', size: size ? Number(size[1]) : undefined }
+      : { name: baseName(path), type: 'dir' };
+  }
+
+  // Modification time using `storage timestamp`, which older firmware lacks
+  async timestamp(path: string, options?: CommandOptions): Promise<number | undefined> {
+    const output = await this.sendCommand(`storage timestamp ${quotePath(path)}`, options);
+    const match = /Timestamp (\d+)/.exec(output);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  // Checksum using `storage md5`, which prints just the hex digest once the
+  // device has read the whole file
+  async md5sum(path: string, { signal }: CommandOptions = {}): Promise<string> {
+    const { size } = await this.stat(path, { signal });
+    await this.writeCommand(`storage md5 ${quotePath(path)}`, signal);
+    const timeoutMs = checksumTimeoutMs(size, this.channel.timeoutMs);
+    const output = this.decoder.decode(await this.channel.readUntil(PROMPT, signal, timeoutMs)).trim();
+    if (!/^[0-9a-f]{32}$/i.test(output)) {
+      throw new FlipperCliError(`Cannot checksum ${path}: ${output}`);
+    }
+    return output.toLowerCase();
+  }
+
+  // Parse `device_info` lines of the form "hardware_name    : Abcd1"
+  async deviceInfo(options?: CommandOptions): Promise<Record<string, string>> {
+    const output = await this.sendCommand('device_info', options);
+    const info: Record<string, string> = {};
+    for (const line of output.split(CRLF)) {
+      const match = /^(\S+)\s*:\s*(.*)$/.exec(line.trim());
+      if (match) info[match[1]] = match[2].trim();
+    }
+    return info;
+  }
+
+  // `date` prints "2024-05-01 13:45:10 3", the last field being the weekday
+  async dateTime(options?: CommandOptions): Promise<number> {
+    const output = await this.sendCommand('date', options);
+    const match = /(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(output);
+    if (!match) {
+      throw new FlipperError(`Unexpected date output: ${output.trim()}`);
+    }
+    const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second) / 1000;
+  }
+
+  // Interrupt whatever is still running and wait for the shell to settle at a
+  // prompt. A `storage read` cannot be interrupted, so this also drains the
+  // rest of an abandoned file dump.
+  async recover(): Promise<void> {
+    await this.channel.write(`${CTRL_C}\r`);
+    await this.channel.readUntil(PROMPT);
+    this.channel.discard();
+  }
+
+  // Hand the stream locks back to the port
+  async close(): Promise<void> {
+    await this.channel.close();
+  }
+
+  // Switch the shell into protobuf RPC mode; the channel then carries RPC frames
+  async startRpcSession(): Promise<SerialChannel> {
+    await this.writeCommand('start_rpc_session');
+    return this.channel;
+  }
+
+  private async writeCommand(command: string, signal?: AbortSignal) {
+    signal?.throwIfAborted();
+    await this.channel.write(`${command}\r`);
+    // Everything up to and including the echoed command line is noise
+    await this.channel.readUntil(`${command}${CRLF}`, signal);
+  }
+}
+
+// Parse `storage list` output, e.g. "\t[D] apps_data" or "\t[F] co2_log.csv 1234b"
+export const parseDirListing = (path: string, output: string): FlipperDirEntry[] => {
+  const entries: FlipperDirEntry[] = [];
+  for (const rawLine of output.split(CRLF)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('Empty')) continue;
+    if (line.startsWith('Storage error')) {
+      throw new FlipperCliError(`Cannot list ${path}: ${line}`);
+    }
+
+    const match = /^\[([DF])\]\s+(.+?)(?:\s+(\d+)b)?$/.exec(line);
+    if (!match) continue;
+    entries.push({
+      name: match[2],
+      type: match[1] === 'D' ? 'dir' : 'file',
+      size: match[3] !== undefined ? Number(match[3]) : undefined
+    });
+  }
+  return entries;
+};
+
+const quotePath = (path: string) => (/\s/.test(path) ? `"${path}"` : path);
@@ -0,0 +1,86 @@
+// A stand-in for a Flipper Zero's CLI on the far end of a serial port, for
+// tests. It echoes what is typed, runs each line through a handler and prints
+// the prompt after the output, splitting everything it sends into small chunks
+// the way USB serial does.
+
+const PROMPT = '\r\n>: ';
+const CTRL_C = '\x03';
+
+// Output for a command line: text or bytes followed by the prompt, or
+// undefined to stay silent until interrupted with Ctrl-C
+export type FakeCommandHandler = (command: string) => string | Uint8Array | undefined;
+
+export interface FakeFlipperOptions {
+  // Largest chunk handed to the reader
+  chunkSize?: number;
+}
+
+export class FakeFlipper {
+  readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  // Every command line received, in order
+  readonly commands: string[] = [];
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+  private readonly chunkSize: number;
+  private controller!: ReadableStreamDefaultController<Uint8Array>;
+  private line = '';
+  private busy = false;
+
+  constructor(
+    private readonly handler: FakeCommandHandler,
+    { chunkSize = 7 }: FakeFlipperOptions = {}
+  ) {
+    this.chunkSize = chunkSize;
+    this.reader = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      }
+    }).getReader();
+    this.writer = new WritableStream<Uint8Array>({
+      write: chunk => this.receive(this.decoder.decode(chunk))
+    }).getWriter();
+  }
+
+  // Bytes the device sends unprompted, such as a banner
+  send(data: string | Uint8Array) {
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+    for (let i = 0; i < bytes.length; i += this.chunkSize) {
+      this.controller.enqueue(bytes.slice(i, i + this.chunkSize));
+    }
+  }
+
+  private receive(text: string) {
+    for (const char of text) {
+      if (char === CTRL_C) {
+        // Interrupts a command that hangs; the Enter that follows prints the prompt
+        this.busy = false;
+        this.line = '';
+      } else if (this.busy) {
+        continue;
+      } else if (char === '\r') {
+        this.run(this.line);
+        this.line = '';
+      } else {
+        this.line += char;
+        this.send(char);
+      }
+    }
+  }
+
+  private run(command: string) {
+    this.send('\r\n');
+    if (!command) {
+      this.send('>: ');
+      return;
+    }
+    this.commands.push(command);
+    const output = this.handler(command);
+    if (output === undefined) {
+      this.busy = true;
+      return;
+    }
+    this.send(output);
+    this.send(PROMPT);
+  }
+}
@@ -0,0 +1,120 @@
+// A stand-in for a Flipper Zero in protobuf RPC mode, for tests. It takes the
+// varint-length-prefixed PB.Main frames written to it, hands each request to a
+// handler and sends back the handler's responses framed the same way, split
+// into small chunks the way USB serial does.
+
+import { decodeFields, encodeVarint, numberField, ProtoWriter, type ProtoField } from './protobuf';
+
+export interface FakeRpcRequest {
+  commandId: number;
+  // PB.Main field number of the request and the fields inside it
+  field: number;
+  content: ProtoField[];
+}
+
+export interface FakeRpcResponse {
+  // PB.Main field number of the response; omitted for a bare status
+  field?: number;
+  content?: ProtoWriter;
+  status?: number;
+  hasNext?: boolean;
+  // The request's by default
+  commandId?: number;
+  // Silence before this response, like the device busy working on a request
+  delayMs?: number;
+}
+
+export type FakeRpcHandler = (request: FakeRpcRequest) => FakeRpcResponse[];
+
+export interface FakeRpcFlipperOptions {
+  // Largest chunk handed to the reader
+  chunkSize?: number;
+}
+
+export class FakeRpcFlipper {
+  readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  // Every request received, in order
+  readonly requests: FakeRpcRequest[] = [];
+  private readonly chunkSize: number;
+  private controller!: ReadableStreamDefaultController<Uint8Array>;
+  private received = new Uint8Array(0);
+  // Responses go out in order, however long each one is held back
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly handler: FakeRpcHandler,
+    { chunkSize = 7 }: FakeRpcFlipperOptions = {}
+  ) {
+    this.chunkSize = chunkSize;
+    this.reader = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      }
+    }).getReader();
+    this.writer = new WritableStream<Uint8Array>({
+      write: chunk => this.receive(chunk)
+    }).getWriter();
+  }
+
+  // Bytes the device sends unprompted, such as a frame for no request
+  send(data: Uint8Array) {
+    for (let i = 0; i < data.length; i += this.chunkSize) {
+      this.controller.enqueue(data.slice(i, i + this.chunkSize));
+    }
+  }
+
+  private receive(chunk: Uint8Array) {
+    const received = new Uint8Array(this.received.length + chunk.length);
+    received.set(this.received);
+    received.set(chunk, this.received.length);
+    this.received = received;
+
+    for (let frame = this.takeFrame(); frame; frame = this.takeFrame()) {
+      const fields = decodeFields(frame);
+      const content = fields.find(f => f.value instanceof Uint8Array);
+      const request = {
+        commandId: numberField(fields, 1),
+        field: content?.field ?? 0,
+        content: content ? decodeFields(content.value as Uint8Array) : []
+      };
+      this.requests.push(request);
+      this.respond(request, this.handler(request));
+    }
+  }
+
+  // Next complete frame without its length prefix, once all of it is here
+  private takeFrame(): Uint8Array | undefined {
+    let length = 0;
+    let multiplier = 1;
+    for (let offset = 0; offset < this.received.length; offset++) {
+      const byte = this.received[offset];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+      if (byte < 0x80) {
+        const end = offset + 1 + length;
+        if (end > this.received.length) return undefined;
+        const frame = this.received.slice(offset + 1, end);
+        this.received = this.received.slice(end);
+        return frame;
+      }
+    }
+    return undefined;
+  }
+
+  private respond(request: FakeRpcRequest, responses: FakeRpcResponse[]) {
+    for (const { field, content, status = 0, hasNext = false, commandId, delayMs } of responses) {
+      this.sending = this.sending.then(async () => {
+        if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+        const message = new ProtoWriter()
+          .uint32(1, commandId ?? request.commandId)
+          .uint32(2, status)
+          .bool(3, hasNext);
+        if (field !== undefined) message.message(field, content ?? new ProtoWriter());
+        const frame = message.finish();
+        this.send(encodeVarint(frame.length));
+        this.send(frame);
+      });
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { FlipperCli, type FlipperCliOptions } from './cli';
+import { FlipperRpc } from './rpc';
+import type { FlipperTransport, TransportKind } from './transport';
+
+export type { TrafficDirection } from './channel';
+export { FlipperCli, FlipperCliError, parseDirListing } from './cli';
+export { FlipperRpc, FlipperRpcError } from './rpc';
+export { md5 } from './md5';
+export { CommandQueue } from './queue';
+export type { QueuedCommandOptions, QueuedTask } from './queue';
+export { baseName, deviceKey, FlipperError } from './transport';
+export type {
+  CommandOptions,
+  FlipperDirEntry,
+  FlipperTransport,
+  TransferProgress,
+  TransportKind
+} from './transport';
+
+// Start a session of the chosen kind on an opened port's streams. RPC sessions
+// are entered from the CLI, so both begin by waking the shell.
+export const openTransport = async (
+  kind: TransportKind,
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+  options: FlipperCliOptions = {}
+): Promise<FlipperTransport> => {
+  const cli = new FlipperCli(reader, writer, options);
+  await cli.start();
+  return kind === 'rpc' ? FlipperRpc.start(cli) : cli;
+};
@@ -0,0 +1,120 @@
+// Minimal protobuf wire-format codec, covering just the scalar, string, bytes
+// and nested message fields used by the Flipper RPC storage commands.
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+export interface ProtoField {
+  field: number;
+  // Varint fields carry a number, length-delimited fields their raw bytes
+  value: number | Uint8Array;
+}
+
+export const encodeVarint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return Uint8Array.from(bytes);
+};
+
+// Builds a message field by field, in the order the fields are added
+export class ProtoWriter {
+  private readonly parts: Uint8Array[] = [];
+  private readonly encoder = new TextEncoder();
+
+  uint32(field: number, value: number): this {
+    if (value !== 0) {
+      this.parts.push(encodeVarint((field << 3) | WIRE_VARINT), encodeVarint(value));
+    }
+    return this;
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint32(field, value ? 1 : 0);
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, this.encoder.encode(value));
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    this.parts.push(encodeVarint((field << 3) | WIRE_LENGTH_DELIMITED), encodeVarint(value.length), value);
+    return this;
+  }
+
+  message(field: number, value: ProtoWriter): this {
+    return this.bytes(field, value.finish());
+  }
+
+  finish(): Uint8Array {
+    const length = this.parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(length);
+    let offset = 0;
+    for (const part of this.parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+}
+
+// Split an encoded message into its fields; fixed-width fields are skipped
+export const decodeFields = (bytes: Uint8Array): ProtoField[] => {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = () => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= bytes.length) throw new Error('Truncated protobuf varint');
+      const byte = bytes[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 0x80;
+    }
+  };
+
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key & 0x07;
+
+    if (wireType === WIRE_VARINT) {
+      fields.push({ field, value: readVarint() });
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const length = readVarint();
+      if (offset + length > bytes.length) throw new Error('Truncated protobuf field');
+      fields.push({ field, value: bytes.subarray(offset, offset + length) });
+      offset += length;
+    } else if (wireType === WIRE_FIXED64) {
+      offset += 8;
+    } else if (wireType === WIRE_FIXED32) {
+      offset += 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+};
+
+export const numberField = (fields: ProtoField[], field: number): number => {
+  const found = fields.find(f => f.field === field);
+  return typeof found?.value === 'number' ? found.value : 0;
+};
+
+export const bytesField = (fields: ProtoField[], field: number): Uint8Array | undefined => {
+  const found = fields.find(f => f.field === field);
+  return found?.value instanceof Uint8Array ? found.value : undefined;
+};
+
+export const stringField = (fields: ProtoField[], field: number): string => {
+  const value = bytesField(fields, field);
+  return value ? new TextDecoder().decode(value) : '';
+};
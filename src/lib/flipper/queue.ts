@@ -0,0 +1,64 @@
+import { FlipperCliError } from './cli';
+import { FlipperRpcError } from './rpc';
+import { FlipperError, type CommandOptions, type FlipperTransport } from './transport';
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 15000;
+
+export interface QueuedCommandOptions extends CommandOptions {
+  // Limit for the whole command once it starts running; 0 disables it and
+  // leaves only the transport's wait-for-next-chunk timeout
+  timeoutMs?: number;
+}
+
+export type QueuedTask<T> = (transport: FlipperTransport, options: CommandOptions) => Promise<T>;
+
+// Serialises everything sent over one transport. Commands run strictly one
+// after another; a command that is aborted, times out or breaks off mid-stream
+// makes the next one wait for `transport.recover()` first.
+export class CommandQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private needsRecovery = false;
+
+  constructor(private readonly transport: FlipperTransport) {}
+
+  run<T>(task: QueuedTask<T>, options: QueuedCommandOptions = {}): Promise<T> {
+    const result = this.tail.then(() => this.execute(task, options));
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  private async execute<T>(
+    task: QueuedTask<T>,
+    { signal, onProgress, timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS }: QueuedCommandOptions
+  ): Promise<T> {
+    // Cancelled while waiting in line
+    signal?.throwIfAborted();
+
+    if (this.needsRecovery) {
+      await this.transport.recover();
+      this.needsRecovery = false;
+    }
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => controller.abort(new FlipperError(`Command timed out after ${timeoutMs} ms`)), timeoutMs)
+        : undefined;
+
+    try {
+      return await task(this.transport, { signal: controller.signal, onProgress });
+    } catch (err) {
+      // Errors reported by the device leave the session in step; anything else
+      // may have left a response half read
+      if (!(err instanceof FlipperCliError || err instanceof FlipperRpcError)) {
+        this.needsRecovery = true;
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { SerialChannel } from './channel';
+import { FakeRpcFlipper, type FakeRpcHandler, type FakeRpcResponse } from './fake-rpc';
+import { md5 } from './md5';
+import { decodeFields, encodeVarint, numberField, ProtoWriter, stringField } from './protobuf';
+import { FlipperRpc, FlipperRpcError } from './rpc';
+import { FlipperError } from './transport';
+
+// PB.Main field numbers (flipper.proto) of the requests the device answers here
+const MAIN = {
+  storageReadRequest: 9,
+  storageReadResponse: 10,
+  storageMd5sumRequest: 14,
+  storageMd5sumResponse: 15,
+  storageStatRequest: 24,
+  storageStatResponse: 25,
+  storageTimestampRequest: 59,
+  storageTimestampResponse: 60
+};
+
+const PATH = '/ext/co2_log.csv';
+// Frames for more than 127 bytes need a two-byte length prefix
+const READ_CHUNK = 200;
+
+// What the device holds and how it behaves, changed by each test
+interface Device {
+  data: Uint8Array;
+  // Digest the device reports, the real one by default
+  md5?: string;
+  // Time the device spends hashing before it answers
+  md5DelayMs?: number;
+  // Status for timestamp requests; 0 answers with `modified`
+  timestampStatus?: number;
+  modified?: number;
+  // A leftover response of an abandoned command, sent ahead of each stat answer
+  strayFrame?: boolean;
+}
+
+const fileMessage = (device: Device) =>
+  new ProtoWriter().message(1, new ProtoWriter().string(2, 'co2_log.csv').uint32(3, device.data.length));
+
+const deviceHandler =
+  (device: Device): FakeRpcHandler =>
+  ({ commandId, field, content }) => {
+    if (stringField(content, 1) !== PATH) return [{ status: 7 }];
+    switch (field) {
+      case MAIN.storageStatRequest: {
+        const answer: FakeRpcResponse = { field: MAIN.storageStatResponse, content: fileMessage(device) };
+        if (!device.strayFrame) return [answer];
+        const stale = new ProtoWriter().message(1, new ProtoWriter().string(2, 'stale').uint32(3, 1));
+        return [{ commandId: commandId + 100, field: MAIN.storageStatResponse, content: stale }, answer];
+      }
+      case MAIN.storageReadRequest: {
+        const responses: FakeRpcResponse[] = [];
+        for (let offset = 0; offset < device.data.length; offset += READ_CHUNK) {
+          const chunk = device.data.subarray(offset, offset + READ_CHUNK);
+          responses.push({
+            field: MAIN.storageReadResponse,
+            content: new ProtoWriter().message(1, new ProtoWriter().bytes(4, chunk)),
+            hasNext: offset + READ_CHUNK < device.data.length
+          });
+        }
+        return responses;
+      }
+      case MAIN.storageMd5sumRequest:
+        return [
+          {
+            field: MAIN.storageMd5sumResponse,
+            content: new ProtoWriter().string(1, device.md5 ?? md5(device.data)),
+            delayMs: device.md5DelayMs
+          }
+        ];
+      case MAIN.storageTimestampRequest:
+        return device.timestampStatus
+          ? [{ status: device.timestampStatus }]
+          : [{ field: MAIN.storageTimestampResponse, content: new ProtoWriter().uint32(1, device.modified ?? 0) }];
+    }
+    return [{ status: 3 }];
+  };
+
+const logBytes = (length: number) =>
+  new TextEncoder().encode(Array.from({ length }, (_, i) => String.fromCharCode(48 + (i % 43))).join(''));
+
+const connect = (device: Device, { chunkSize = 7, timeoutMs = 200 } = {}) => {
+  const fake = new FakeRpcFlipper(deviceHandler(device), { chunkSize });
+  return { fake, rpc: new FlipperRpc(new SerialChannel(fake.reader, fake.writer, { timeoutMs })) };
+};
+
+describe('protobuf', () => {
+  it.each([
+    [0, [0x00]],
+    [1, [0x01]],
+    [127, [0x7f]],
+    [300, [0xac, 0x02]],
+    [2 ** 35, [0x80, 0x80, 0x80, 0x80, 0x80, 0x01]]
+  ])('encodes %i as a varint', (value, bytes) => {
+    expect([...encodeVarint(value)]).toEqual(bytes);
+  });
+
+  it('decodes what it encodes, nested messages included', () => {
+    const encoded = new ProtoWriter()
+      .uint32(1, 2 ** 35)
+      .string(2, 'co2 ✓')
+      .message(3, new ProtoWriter().uint32(1, 7))
+      .finish();
+    const fields = decodeFields(encoded);
+    expect(numberField(fields, 1)).toBe(2 ** 35);
+    expect(stringField(fields, 2)).toBe('co2 ✓');
+    expect(numberField(decodeFields(fields[2].value as Uint8Array), 1)).toBe(7);
+  });
+
+  it('reports a truncated message', () => {
+    const encoded = new ProtoWriter().string(2, 'cut short').finish();
+    expect(() => decodeFields(encoded.subarray(0, 5))).toThrow('Truncated protobuf field');
+  });
+});
+
+describe('FlipperRpc', () => {
+  it('reads a file spread over has_next responses, byte by byte off the port', async () => {
+    const device = { data: logBytes(1000) };
+    const { fake, rpc } = connect(device, { chunkSize: 1 });
+    const progress: number[] = [];
+    const data = await rpc.readFile(PATH, { onProgress: ({ received }) => progress.push(received) });
+    expect(data).toEqual(device.data);
+    expect(progress).toEqual([0, 200, 400, 600, 800, 1000]);
+    expect(fake.requests.map(request => request.field)).toEqual([
+      MAIN.storageStatRequest,
+      MAIN.storageReadRequest,
+      MAIN.storageMd5sumRequest
+    ]);
+  });
+
+  it('rejects a transfer that does not match the device checksum', async () => {
+    const { rpc } = connect({ data: logBytes(300), md5: md5(logBytes(299)) });
+    await expect(rpc.readFile(PATH)).rejects.toThrow(/^Checksum mismatch for \/ext\/co2_log\.csv/);
+  });
+
+  it('skips responses that belong to another command', async () => {
+    const { rpc } = connect({ data: logBytes(300), strayFrame: true });
+    expect(await rpc.stat(PATH)).toEqual({ name: 'co2_log.csv', type: 'file', size: 300 });
+    expect(await rpc.readFile(PATH)).toHaveLength(300);
+  });
+
+  it('reports an error status and stays usable', async () => {
+    const { rpc } = connect({ data: logBytes(300) });
+    const error = await rpc.stat('/ext/missing.csv').catch(err => err);
+    expect(error).toBeInstanceOf(FlipperRpcError);
+    expect(error).toMatchObject({ status: 7, message: '/ext/missing.csv: file/dir not exist' });
+    expect((await rpc.stat(PATH)).size).toBe(300);
+  });
+
+  it('waits longer for the checksum of a large file than for other responses', async () => {
+    const large = { data: logBytes(32 * 1024), md5DelayMs: 150 };
+    expect(await connect(large, { timeoutMs: 50 }).rpc.readFile(PATH)).toHaveLength(32 * 1024);
+
+    const small = { data: logBytes(300), md5DelayMs: 150 };
+    const error = await connect(small, { timeoutMs: 50 })
+      .rpc.readFile(PATH)
+      .catch(err => err);
+    expect(error).toBeInstanceOf(FlipperError);
+    expect(error.message).toMatch(/No response from device after 50 ms/);
+  });
+
+  it('reads the modification time', async () => {
+    const { rpc } = connect({ data: logBytes(10), modified: 1700000000 });
+    expect(await rpc.timestamp(PATH)).toBe(1700000000);
+  });
+
+  it.each([2, 3, 12])('has no modification time on firmware answering status %i', async status => {
+    const { rpc } = connect({ data: logBytes(10), timestampStatus: status });
+    expect(await rpc.timestamp(PATH)).toBeUndefined();
+  });
+
+  it('still reports other timestamp errors', async () => {
+    const { rpc } = connect({ data: logBytes(10), timestampStatus: 7 });
+    await expect(rpc.timestamp(PATH)).rejects.toThrow(FlipperRpcError);
+  });
+});
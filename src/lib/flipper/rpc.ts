@@ -0,0 +1,315 @@
+// Protobuf RPC session for a Flipper Zero, started from the CLI with
+// `start_rpc_session`. Every message is a varint-length-prefixed PB.Main;
+// multi-part responses set `has_next` and share the request's command_id.
+
+import type { FlipperCli } from './cli';
+import type { SerialChannel } from './channel';
+import { md5 } from './md5';
+import {
+  bytesField,
+  decodeFields,
+  encodeVarint,
+  numberField,
+  ProtoWriter,
+  stringField,
+  type ProtoField
+} from './protobuf';
+import {
+  checksumTimeoutMs,
+  FlipperError,
+  type CommandOptions,
+  type FlipperDirEntry,
+  type FlipperTransport
+} from './transport';
+
+// PB.Main field numbers (flipper.proto)
+const MAIN = {
+  commandId: 1,
+  commandStatus: 2,
+  hasNext: 3,
+  storageListRequest: 7,
+  storageListResponse: 8,
+  storageReadRequest: 9,
+  storageReadResponse: 10,
+  storageMd5sumRequest: 14,
+  storageMd5sumResponse: 15,
+  stopSession: 19,
+  storageStatRequest: 24,
+  systemDeviceInfoRequest: 32,
+  systemDeviceInfoResponse: 33,
+  systemGetDateTimeRequest: 35,
+  systemGetDateTimeResponse: 36,
+  storageStatResponse: 25,
+  storageTimestampRequest: 59,
+  storageTimestampResponse: 60
+};
+
+// PB_Storage.File field numbers (storage.proto)
+const FILE = {
+  type: 1,
+  name: 2,
+  size: 3,
+  data: 4
+};
+
+// PB_System.DateTime field numbers (system.proto)
+const DATE_TIME = {
+  hour: 1,
+  minute: 2,
+  second: 3,
+  day: 4,
+  month: 5,
+  year: 6
+};
+
+const FILE_TYPE_DIR = 1;
+
+// Statuses of firmware that predates a request: it cannot decode it, has no
+// handler for it, or its filesystem lacks the feature
+const STATUS_UNSUPPORTED = [2, 3, 12];
+
+const STATUS_NAMES: Record<number, string> = {
+  1: 'error',
+  2: 'decode error',
+  3: 'not implemented',
+  4: 'device busy',
+  5: 'storage not ready',
+  6: 'already exists',
+  7: 'file/dir not exist',
+  8: 'invalid parameter',
+  9: 'access denied',
+  10: 'invalid name',
+  11: 'internal storage error',
+  12: 'not implemented by storage',
+  13: 'file already open',
+  14: 'command interrupted',
+  15: 'invalid parameters',
+  18: 'directory not empty'
+};
+
+interface RequestOptions {
+  // Receives each response as it arrives instead of collecting them
+  onMessage?: (message: ProtoField[]) => void;
+  // Wait for the first response, when the device works for a while before answering
+  timeoutMs?: number;
+}
+
+export class FlipperRpcError extends FlipperError {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'FlipperRpcError';
+  }
+}
+
+export class FlipperRpc implements FlipperTransport {
+  readonly kind = 'rpc';
+  private nextCommandId = 1;
+  private outOfSync = false;
+
+  constructor(private readonly channel: SerialChannel) {}
+
+  // Switch a running CLI session over to RPC
+  static async start(cli: FlipperCli): Promise<FlipperRpc> {
+    return new FlipperRpc(await cli.startRpcSession());
+  }
+
+  // Read a file in framed chunks and verify it against the device's md5
+  async readFile(path: string, { signal, onProgress }: CommandOptions = {}): Promise<Uint8Array> {
+    const { size } = await this.stat(path, { signal });
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    onProgress?.({ received, total: size });
+
+    const onMessage = (response: ProtoField[]) => {
+      const readResponse = bytesField(response, MAIN.storageReadResponse);
+      const file = readResponse ? bytesField(decodeFields(readResponse), 1) : undefined;
+      const chunk = file ? bytesField(decodeFields(file), FILE.data) : undefined;
+      if (!chunk) return;
+      chunks.push(chunk);
+      received += chunk.length;
+      onProgress?.({ received, total: size, chunk });
+    };
+    await this.request(MAIN.storageReadRequest, new ProtoWriter().string(1, path), path, signal, { onMessage });
+
+    const data = concat(chunks);
+    const expected = await this.checksum(path, data.length, signal);
+    const actual = md5(data);
+    if (expected && actual !== expected) {
+      throw new FlipperError(`Checksum mismatch for ${path}: device ${expected}, received ${actual}`);
+    }
+    return data;
+  }
+
+  async listDir(path: string, { signal }: CommandOptions = {}): Promise<FlipperDirEntry[]> {
+    const responses = await this.request(MAIN.storageListRequest, new ProtoWriter().string(1, path), path, signal);
+    return responses.flatMap(response => {
+      const listResponse = bytesField(response, MAIN.storageListResponse);
+      if (!listResponse) return [];
+      return decodeFields(listResponse)
+        .filter(f => f.field === 1 && f.value instanceof Uint8Array)
+        .map(f => parseFile(decodeFields(f.value as Uint8Array)));
+    });
+  }
+
+  async stat(path: string, { signal }: CommandOptions = {}): Promise<FlipperDirEntry> {
+    const [response] = await this.request(MAIN.storageStatRequest, new ProtoWriter().string(1, path), path, signal);
+    const statResponse = bytesField(response, MAIN.storageStatResponse);
+    const file = statResponse ? bytesField(decodeFields(statResponse), 1) : undefined;
+    if (!file) {
+      throw new FlipperError(`Cannot stat ${path}: empty response`);
+    }
+    return parseFile(decodeFields(file));
+  }
+
+  async md5sum(path: string, { signal }: CommandOptions = {}): Promise<string> {
+    const { size } = await this.stat(path, { signal });
+    return this.checksum(path, size, signal);
+  }
+
+  async timestamp(path: string, { signal }: CommandOptions = {}): Promise<number | undefined> {
+    try {
+      const [response] = await this.request(
+        MAIN.storageTimestampRequest,
+        new ProtoWriter().string(1, path),
+        path,
+        signal
+      );
+      const timestampResponse = bytesField(response, MAIN.storageTimestampResponse);
+      return timestampResponse ? numberField(decodeFields(timestampResponse), 1) : undefined;
+    } catch (err) {
+      if (err instanceof FlipperRpcError && STATUS_UNSUPPORTED.includes(err.status)) return undefined;
+      throw err;
+    }
+  }
+
+  // Device info arrives as one key/value response per property
+  async deviceInfo({ signal }: CommandOptions = {}): Promise<Record<string, string>> {
+    const responses = await this.request(MAIN.systemDeviceInfoRequest, new ProtoWriter(), 'device_info', signal);
+    const info: Record<string, string> = {};
+    for (const response of responses) {
+      const pair = bytesField(response, MAIN.systemDeviceInfoResponse);
+      if (!pair) continue;
+      const fields = decodeFields(pair);
+      info[stringField(fields, 1)] = stringField(fields, 2);
+    }
+    return info;
+  }
+
+  async dateTime({ signal }: CommandOptions = {}): Promise<number> {
+    const [response] = await this.request(MAIN.systemGetDateTimeRequest, new ProtoWriter(), 'get_datetime', signal);
+    const dateTimeResponse = bytesField(response, MAIN.systemGetDateTimeResponse);
+    const dateTime = dateTimeResponse ? bytesField(decodeFields(dateTimeResponse), 1) : undefined;
+    if (!dateTime) {
+      throw new FlipperError('Cannot read the device clock: empty response');
+    }
+    const fields = decodeFields(dateTime);
+    const field = (key: keyof typeof DATE_TIME) => numberField(fields, DATE_TIME[key]);
+    return (
+      Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second')) / 1000
+    );
+  }
+
+  // Responses to an abandoned command are skipped by command_id, so only a
+  // frame cut off halfway leaves the session unusable
+  async recover(): Promise<void> {
+    if (this.outOfSync) {
+      throw new FlipperError('RPC session lost framing; reconnect the Flipper');
+    }
+  }
+
+  // End the RPC session and hand the stream locks back to the port
+  async close(): Promise<void> {
+    await this.send(this.nextCommandId++, MAIN.stopSession, new ProtoWriter()).catch(() => undefined);
+    await this.channel.close();
+  }
+
+  // The device hashes the whole file before answering, which takes longer than
+  // the usual wait for a response on large files
+  private async checksum(path: string, size: number | undefined, signal?: AbortSignal): Promise<string> {
+    const timeoutMs = checksumTimeoutMs(size, this.channel.timeoutMs);
+    const request = new ProtoWriter().string(1, path);
+    const [response] = await this.request(MAIN.storageMd5sumRequest, request, path, signal, { timeoutMs });
+    const md5Response = bytesField(response, MAIN.storageMd5sumResponse);
+    return md5Response ? stringField(decodeFields(md5Response), 1).toLowerCase() : '';
+  }
+
+  private async request(
+    contentField: number,
+    content: ProtoWriter,
+    subject: string,
+    signal?: AbortSignal,
+    { onMessage, timeoutMs }: RequestOptions = {}
+  ): Promise<ProtoField[][]> {
+    signal?.throwIfAborted();
+    const commandId = this.nextCommandId++;
+    await this.send(commandId, contentField, content);
+
+    const responses: ProtoField[][] = [];
+    let answered = false;
+    for (;;) {
+      const message = decodeFields(await this.readFrame(signal, answered ? undefined : timeoutMs));
+      // Skip unsolicited messages and leftovers of abandoned commands
+      if (numberField(message, MAIN.commandId) !== commandId) continue;
+      answered = true;
+
+      const status = numberField(message, MAIN.commandStatus);
+      if (status !== 0) {
+        throw new FlipperRpcError(`${subject}: ${STATUS_NAMES[status] ?? `RPC status ${status}`}`, status);
+      }
+
+      if (onMessage) {
+        onMessage(message);
+      } else {
+        responses.push(message);
+      }
+      if (!numberField(message, MAIN.hasNext)) return responses;
+    }
+  }
+
+  private async send(commandId: number, contentField: number, content: ProtoWriter) {
+    const frame = new ProtoWriter().uint32(MAIN.commandId, commandId).message(contentField, content).finish();
+    await this.channel.write(concat([encodeVarint(frame.length), frame]));
+  }
+
+  // Aborts are only honoured before a frame starts, so a cancelled command
+  // never leaves half a frame in the channel
+  private async readFrame(signal?: AbortSignal, timeoutMs?: number): Promise<Uint8Array> {
+    const [first] = await this.channel.readExactly(1, signal, undefined, timeoutMs);
+    try {
+      let byte = first;
+      let length = byte & 0x7f;
+      let multiplier = 0x80;
+      while (byte >= 0x80) {
+        [byte] = await this.channel.readExactly(1);
+        length += (byte & 0x7f) * multiplier;
+        multiplier *= 0x80;
+      }
+      return await this.channel.readExactly(length);
+    } catch (err) {
+      this.outOfSync = true;
+      throw err;
+    }
+  }
+}
+
+const parseFile = (fields: ProtoField[]): FlipperDirEntry => {
+  const isDir = numberField(fields, FILE.type) === FILE_TYPE_DIR;
+  return {
+    name: stringField(fields, FILE.name),
+    type: isDir ? 'dir' : 'file',
+    size: isDir ? undefined : numberField(fields, FILE.size)
+  };
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
@@ -0,0 +1,67 @@
+// File access shared by the text CLI and the protobuf RPC session, so pages
+// can work with either one once the port is open.
+
+export type TransportKind = 'cli' | 'rpc';
+
+export class FlipperError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlipperError';
+  }
+}
+
+export interface FlipperDirEntry {
+  name: string;
+  type: 'file' | 'dir';
+  size?: number;
+  // Last modification time in epoch seconds, when known
+  modified?: number;
+}
+
+export interface TransferProgress {
+  received: number;
+  // Expected byte count, when the device announced one
+  total?: number;
+  // Bytes that arrived since the previous report
+  chunk?: Uint8Array;
+}
+
+export interface CommandOptions {
+  // Aborting leaves the session mid-response; run `recover` before reusing it
+  signal?: AbortSignal;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+export interface FlipperTransport {
+  readonly kind: TransportKind;
+  readFile(path: string, options?: CommandOptions): Promise<Uint8Array>;
+  listDir(path: string, options?: CommandOptions): Promise<FlipperDirEntry[]>;
+  stat(path: string, options?: CommandOptions): Promise<FlipperDirEntry>;
+  // Resolves to undefined when the firmware cannot report timestamps
+  timestamp(path: string, options?: CommandOptions): Promise<number | undefined>;
+  // Lowercase hex MD5 computed on the device, without transferring the file
+  md5sum(path: string, options?: CommandOptions): Promise<string>;
+  // Key/value pairs such as hardware_name and hardware_uid
+  deviceInfo(options?: CommandOptions): Promise<Record<string, string>>;
+  // RTC reading as epoch seconds, its wall-clock time taken as UTC the same way
+  // the firmware stamps files and log rows
+  dateTime(options?: CommandOptions): Promise<number>;
+  // Get the session back in step after an aborted or failed command
+  recover(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// The device reads a file through before it answers an MD5 request; no SD card
+// is slower than this
+const CHECKSUM_BYTES_PER_SECOND = 64 * 1024;
+
+// Wait for the answer to an MD5 request on a file of `size` bytes, at least `minimumMs`
+export const checksumTimeoutMs = (size: number | undefined, minimumMs: number) =>
+  Math.max(minimumMs, Math.ceil(((size ?? 0) / CHECKSUM_BYTES_PER_SECOND) * 1000));
+
+// Stable identifier for caching per device, preferring the hardware UID
+export const deviceKey = (info: Record<string, string>) =>
+  info.hardware_uid || info.hardware_name || 'flipper';
+
+// Last path component, e.g. "co2_log.csv" for "/ext/apps_data/co2_logger/co2_log.csv"
+export const baseName = (path: string) => path.replace(/\/+$/, '').split('/').pop() ?? path;
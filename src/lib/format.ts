@@ -0,0 +1,29 @@
+// File size such as "512 B" or "1.4 MiB"; empty when unknown
+export const formatBytes = (size?: number) => {
+  if (size === undefined) return '';
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KiB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MiB`;
+};
+
+// Short duration such as "42s", "3m 05s" or "1h 20m"
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`;
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`;
+  return `${s}s`;
+};
+
+// Number typed into a field; undefined while it is blank, not a number or out of range
+export const parseNumber = (
+  text: string,
+  { min = -Infinity, max = Infinity, above }: { min?: number; max?: number; above?: number } = {}
+) => {
+  if (!text.trim()) return undefined;
+  const value = Number(text);
+  if (!Number.isFinite(value) || value < min || value > max) return undefined;
+  return above === undefined || value > above ? value : undefined;
+};
@@ -0,0 +1,170 @@
+// Classification of a session's CO2 against indoor air quality frameworks.
+// Each framework is a ladder of bands, best first; a session gets the best
+// band it stays within for nearly all of the time, the way EN 16798-1
+// tolerates a few percent of exceedance.
+
+import { z } from 'zod';
+import type { OutdoorLevel } from '@/lib/baseline';
+import type { CO2DataPoint, TimeRange } from '@/lib/co2';
+import { readingHolds } from '@/lib/statistics';
+
+const FRAMEWORK_KEY = 'co2-explorer:iaq-framework';
+
+// Steps across the chart when bands follow a changing outdoor level
+const BAND_STEPS = 48;
+
+export const IAQ_FRAMEWORK_IDS = ['en16798', 'ashrae', 'custom'] as const;
+
+export type IaqFrameworkId = (typeof IAQ_FRAMEWORK_IDS)[number];
+
+export interface IaqBand {
+  label: string;
+  // Upper limit in ppm, included; the last band has none
+  upTo?: number;
+  color: string;
+}
+
+export interface IaqFramework {
+  id: IaqFrameworkId;
+  label: string;
+  // Limits are CO2 above outdoor air rather than absolute
+  relative: boolean;
+  bands: IaqBand[];
+}
+
+// Share of time a session must stay within a band to be graded by it
+export const GRADE_SHARE = 0.95;
+
+const BAND_COLORS = ['hsl(140 70% 45%)', 'hsl(80 70% 45%)', 'hsl(45 90% 50%)', 'hsl(20 90% 55%)', 'hsl(0 80% 55%)'];
+
+const EN_16798: IaqFramework = {
+  id: 'en16798',
+  label: 'EN 16798-1',
+  relative: true,
+  bands: [
+    { label: 'Category I', upTo: 550, color: BAND_COLORS[0] },
+    { label: 'Category II', upTo: 800, color: BAND_COLORS[1] },
+    { label: 'Category III', upTo: 1350, color: BAND_COLORS[2] },
+    { label: 'Category IV', color: BAND_COLORS[4] }
+  ]
+};
+
+const ASHRAE_62_1: IaqFramework = {
+  id: 'ashrae',
+  label: 'ASHRAE 62.1',
+  relative: true,
+  bands: [
+    { label: 'Within 700 ppm of outdoor', upTo: 700, color: BAND_COLORS[0] },
+    { label: 'Above 700 ppm of outdoor', color: BAND_COLORS[4] }
+  ]
+};
+
+// Bands between the user's statistics thresholds
+const customFramework = (thresholds: number[]): IaqFramework => {
+  // Spread from green for the first band to red for the last
+  const color = (i: number) => BAND_COLORS[Math.round((i * (BAND_COLORS.length - 1)) / thresholds.length)];
+  return {
+    id: 'custom',
+    label: 'Custom thresholds',
+    relative: false,
+    bands: [
+      ...thresholds.map((upTo, i) => ({
+        label: i === 0 ? `Up to ${upTo} ppm` : `${thresholds[i - 1]}–${upTo} ppm`,
+        upTo,
+        color: color(i)
+      })),
+      { label: `Above ${thresholds[thresholds.length - 1]} ppm`, color: color(thresholds.length) }
+    ]
+  };
+};
+
+export const IAQ_FRAMEWORK_LABELS: Record<IaqFrameworkId, string> = {
+  en16798: EN_16798.label,
+  ashrae: ASHRAE_62_1.label,
+  custom: 'Custom thresholds'
+};
+
+export const getFramework = (id: IaqFrameworkId, thresholds: number[]): IaqFramework => {
+  switch (id) {
+    case 'en16798':
+      return EN_16798;
+    case 'ashrae':
+      return ASHRAE_62_1;
+    case 'custom':
+      return customFramework(thresholds);
+  }
+};
+
+// Range of each band on the chart's CO2 scale, for drawing them. A
+// differential series has an outdoor level of 0.
+export const bandLimits = (framework: IaqFramework, outdoorPpm: number, span?: Partial<TimeRange>) => {
+  const base = framework.relative ? outdoorPpm : 0;
+  return framework.bands.map((band, i) => ({
+    ...band,
+    from: i > 0 ? base + (framework.bands[i - 1].upTo ?? 0) : undefined,
+    to: band.upTo !== undefined ? base + band.upTo : undefined,
+    span
+  }));
+};
+
+// Bands over `range` following an outdoor level that changes with time, the
+// way sessions are scored, in steps taken at the middle of each. The outer
+// steps reach the edges of the chart.
+export const steppedBandLimits = (framework: IaqFramework, outdoor: OutdoorLevel, range: TimeRange) => {
+  if (!framework.relative) return bandLimits(framework, 0);
+  const step = (range.to - range.from) / BAND_STEPS;
+  return Array.from({ length: BAND_STEPS }, (_, i) =>
+    bandLimits(framework, outdoor(range.from + (i + 0.5) * step), {
+      from: i > 0 ? range.from + i * step : undefined,
+      to: i < BAND_STEPS - 1 ? range.from + (i + 1) * step : undefined
+    })
+  ).flat();
+};
+
+export interface IaqBandShare {
+  band: IaqBand;
+  seconds: number;
+  share: number;
+}
+
+export interface IaqScore {
+  shares: IaqBandShare[];
+  // Best band the session stays within for GRADE_SHARE of the time
+  grade: IaqBand;
+}
+
+export const scoreSession = (data: CO2DataPoint[], framework: IaqFramework, outdoor: OutdoorLevel): IaqScore => {
+  const holds = readingHolds(data);
+  const seconds = framework.bands.map(() => 0);
+  data.forEach((point, i) => {
+    const level = framework.relative ? point.co2_ppm - outdoor(point.timestamp) : point.co2_ppm;
+    const band = framework.bands.findIndex(b => b.upTo === undefined || level <= b.upTo);
+    seconds[band] += holds[i];
+  });
+
+  const total = seconds.reduce((sum, s) => sum + s, 0);
+  const shares = framework.bands.map((band, i) => ({
+    band,
+    seconds: seconds[i],
+    share: total > 0 ? seconds[i] / total : 0
+  }));
+
+  let within = 0;
+  const grade =
+    shares.find(({ share }) => {
+      within += share;
+      // Allow for the shares not adding up exactly
+      return within >= GRADE_SHARE - 1e-9;
+    })?.band ?? framework.bands[framework.bands.length - 1];
+
+  return { shares, grade };
+};
+
+export const loadFrameworkId = (): IaqFrameworkId => {
+  const parsed = z.enum(IAQ_FRAMEWORK_IDS).safeParse(localStorage.getItem(FRAMEWORK_KEY));
+  return parsed.success ? parsed.data : 'en16798';
+};
+
+export const saveFrameworkId = (id: IaqFrameworkId) => {
+  localStorage.setItem(FRAMEWORK_KEY, id);
+};
@@ -0,0 +1,74 @@
+// Persists what has already been synced from each device's log files, so a
+// reconnect only has to deal with rows appended since the last sync.
+
+import type { CsvColumns } from '@/lib/co2-csv';
+
+const DB_NAME = 'co2-explorer';
+const DB_VERSION = 1;
+const LOG_STORE = 'logs';
+
+export interface CachedLog {
+  // `${deviceKey}:${path}`
+  key: string;
+  // Complete lines synced so far, header included
+  text: string;
+  // Byte length of `text` as stored on the device
+  bytes: number;
+  // File size reported by the device at the last sync, partial line included
+  size: number;
+  // Together with `size`, tells whether the file changed since the last sync:
+  // its modification time when the firmware reports one, and the MD5 of the
+  // whole file as transferred. Absent in older caches.
+  modified?: number;
+  md5?: string;
+  rows: number;
+  // Column layout in effect at the end of `text`; absent in older caches
+  columns?: CsvColumns;
+  syncedAt: number;
+}
+
+export const logCacheKey = (device: string, path: string) => `${device}:${path}`;
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(LOG_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(LOG_STORE, mode).objectStore(LOG_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadCachedLog = async (key: string): Promise<CachedLog | undefined> => {
+  try {
+    return await withStore<CachedLog | undefined>('readonly', store => store.get(key));
+  } catch (err) {
+    console.error('Failed to load cached log:', err);
+    return undefined;
+  }
+};
+
+export const saveCachedLog = async (log: CachedLog): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.put(log));
+  } catch (err) {
+    console.error('Failed to save cached log:', err);
+  }
+};
+
+export const deleteCachedLog = async (key: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(key));
+};
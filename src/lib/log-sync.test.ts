@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { FlipperCli, md5 } from '@/lib/flipper';
+import { FakeFlipper } from '@/lib/flipper/fake-flipper';
+import type { CachedLog } from '@/lib/log-cache';
+import { syncLog } from '@/lib/log-sync';
+
+const PATH = '/ext/co2_log.csv';
+const KEY = `flipper:${PATH}`;
+
+const HEADER = 'timestamp,co2_ppm\r\n';
+const rows = (...readings: [number, number][]) => readings.map(([time, ppm]) => `${time},${ppm}\r\n`).join('');
+
+// The log file on the device, which tests rewrite between syncs
+interface DeviceFile {
+  text: string;
+  modified: number;
+  // Older firmware has no `storage timestamp`
+  timestamps: boolean;
+}
+
+const connect = async (file: DeviceFile) => {
+  const encoder = new TextEncoder();
+  const device = new FakeFlipper(command => {
+    const [, verb, path] = command.split(' ');
+    const bytes = encoder.encode(file.text);
+    if (path !== PATH) return 'Storage error: file/dir not exist';
+    switch (verb) {
+      case 'stat':
+        return `File, size: ${bytes.length}b`;
+      case 'timestamp':
+        return file.timestamps ? `Timestamp ${file.modified}, 2023-11-14 22:13:20` : `unknown command: ${command}`;
+      case 'md5':
+        return md5(bytes);
+      case 'read':
+        return `Size: ${bytes.length}\r\n${file.text}`;
+    }
+    return `unknown command: ${command}`;
+  });
+  device.send('>: ');
+  const cli = new FlipperCli(device.reader, device.writer, { timeoutMs: 200 });
+  await cli.start();
+  return { device, cli };
+};
+
+// Sync once from scratch, then change the file and sync against that cache
+const resync = async (before: DeviceFile, change: (file: DeviceFile) => void) => {
+  const file = { ...before };
+  const { device, cli } = await connect(file);
+  const first = await syncLog(cli, KEY, PATH);
+  change(file);
+  const reads = device.commands.filter(command => command.startsWith('storage read')).length;
+  const second = await syncLog(cli, KEY, PATH, first.log);
+  const transferred = device.commands.filter(command => command.startsWith('storage read')).length > reads;
+  return { second, transferred };
+};
+
+const LOG: DeviceFile = {
+  text: HEADER + rows([1700000000, 600], [1700000060, 610]),
+  modified: 1700000060,
+  timestamps: true
+};
+
+describe('syncLog', () => {
+  it('parses the whole file on a first sync', async () => {
+    const { cli } = await connect({ ...LOG });
+    const result = await syncLog(cli, KEY, PATH);
+    expect(result.mode).toBe('full');
+    expect(result.points.map(point => point.co2_ppm)).toEqual([600, 610]);
+    expect(result.log).toMatchObject<Partial<CachedLog>>({
+      rows: 2,
+      modified: LOG.modified,
+      md5: md5(new TextEncoder().encode(LOG.text))
+    });
+  });
+
+  it.each([
+    ['the file is untouched', LOG, () => undefined],
+    ['the firmware has no timestamps and the checksum matches', { ...LOG, timestamps: false }, () => undefined]
+  ])('skips the transfer when %s', async (_, before, change) => {
+    const { second, transferred } = await resync(before, change);
+    expect(second.mode).toBe('unchanged');
+    expect(transferred).toBe(false);
+  });
+
+  it('appends the rows a grown file gained', async () => {
+    const { second } = await resync(LOG, file => {
+      file.text += rows([1700000120, 620]);
+      file.modified = 1700000120;
+    });
+    expect(second.mode).toBe('append');
+    expect(second.points.map(point => point.co2_ppm)).toEqual([620]);
+    expect(second.log.rows).toBe(3);
+  });
+
+  it.each<[string, DeviceFile, (file: DeviceFile) => void]>([
+    [
+      'a same-size rewrite',
+      LOG,
+      file => {
+        file.text = HEADER + rows([1700000000, 600], [1700000060, 999]);
+        file.modified = 1700000100;
+      }
+    ],
+    [
+      'a same-size rewrite without timestamps',
+      { ...LOG, timestamps: false },
+      file => {
+        file.text = HEADER + rows([1700000000, 600], [1700000060, 999]);
+      }
+    ],
+    [
+      'a shrunk file',
+      LOG,
+      file => {
+        file.text = HEADER + rows([1700000000, 600]);
+        file.modified = 1700000100;
+      }
+    ],
+    [
+      'a rotated file that has grown past the cached size',
+      LOG,
+      file => {
+        file.text = HEADER + rows([1700086400, 500], [1700086460, 510], [1700086520, 520]);
+        file.modified = 1700086520;
+      }
+    ]
+  ])('reloads the whole file after %s', async (_, before, change) => {
+    const { second, transferred } = await resync(before, change);
+    expect(transferred).toBe(true);
+    expect(second.mode).toBe('full');
+    expect(second.points).toEqual(
+      [...second.log.text.matchAll(/^(\d+),(\d+)\r$/gm)].map(([, time, ppm]) => ({
+        timestamp: Number(time),
+        co2_ppm: Number(ppm),
+        channels: {}
+      }))
+    );
+    expect(second.log.rows).toBe(second.points.length);
+  });
+
+  it('leaves a line still being written for the next sync', async () => {
+    const { second } = await resync(LOG, file => {
+      file.text += '1700000120,6';
+      file.modified = 1700000120;
+    });
+    expect(second.mode).toBe('append');
+    expect(second.points).toEqual([]);
+    expect(second.log.text).toBe(LOG.text);
+    expect(second.log.size).toBe(new TextEncoder().encode(LOG.text).length + 12);
+  });
+});
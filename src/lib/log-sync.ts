@@ -0,0 +1,133 @@
+import type { CO2DataPoint, LogMarker, SensorChannel } from '@/lib/co2';
+import { CsvLogParser, parseCSV, type CsvRejectedRow } from '@/lib/co2-csv';
+import { md5, type CommandOptions, type FlipperTransport, type TransferProgress } from '@/lib/flipper';
+import type { CachedLog } from '@/lib/log-cache';
+
+export type SyncMode = 'full' | 'append' | 'unchanged';
+
+export interface SyncResult {
+  mode: SyncMode;
+  log: CachedLog;
+  // Points, markers and rejected rows from the newly synced rows only
+  points: CO2DataPoint[];
+  markers: LogMarker[];
+  rejected: CsvRejectedRow[];
+  // Channels in the synced part of the file
+  channels: SensorChannel[];
+}
+
+const NEWLINE = 0x0a;
+
+const sameBytes = (a: Uint8Array, b: Uint8Array, bOffset: number, length: number) => {
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[bOffset + i]) return false;
+  }
+  return true;
+};
+
+const countLines = (text: string) => {
+  let lines = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) lines++;
+  return lines;
+};
+
+// Parser that continues after the rows already in the cache. Caches written
+// before channels existed have to be parsed again for their layout.
+const resumeParser = (cached: CachedLog) =>
+  new CsvLogParser({
+    columns: cached.columns?.channels ? cached.columns : parseCSV(cached.text).columns,
+    linesBefore: countLines(cached.text)
+  });
+
+// Whether the file is still the one cached, judged without transferring it. A
+// log rewritten or rotated at the same size keeps its size but not its
+// modification time; firmware that reports no times hashes the file instead.
+const isUnchanged = async (
+  transport: FlipperTransport,
+  path: string,
+  cached: CachedLog,
+  size: number | undefined,
+  modified: number | undefined,
+  signal?: AbortSignal
+) => {
+  if (size === undefined || size !== cached.size) return false;
+  if (modified !== undefined && cached.modified !== undefined) return modified === cached.modified;
+  return cached.md5 !== undefined && (await transport.md5sum(path, { signal })) === cached.md5;
+};
+
+// Bring a cached copy of a log up to date with the file on the device.
+//
+// Size and modification time decide whether anything has to be transferred at
+// all. Neither the CLI nor RPC can read from an offset, so a log that changed
+// is transferred in full: only the parse is incremental. The cached prefix is
+// compared with what arrives to catch rotated or rewritten logs, and rows after
+// it are parsed while they stream in. A trailing line the logger is still
+// writing is left for next time.
+export const syncLog = async (
+  transport: FlipperTransport,
+  key: string,
+  path: string,
+  cached?: CachedLog,
+  options: CommandOptions = {}
+): Promise<SyncResult> => {
+  const { signal } = options;
+  const { size } = await transport.stat(path, { signal });
+  const modified = await transport.timestamp(path, { signal });
+  if (cached && (await isUnchanged(transport, path, cached, size, modified, signal))) {
+    return { mode: 'unchanged', log: cached, points: [], markers: [], rejected: [], channels: [] };
+  }
+
+  // Assume the file still starts with the cached text until a chunk says otherwise
+  const prefix = new TextEncoder().encode(cached?.text ?? '');
+  let parser = cached ? resumeParser(cached) : new CsvLogParser();
+  let points: CO2DataPoint[] = [];
+  let matches = true;
+  let streamed = 0;
+
+  const onProgress = (progress: TransferProgress) => {
+    options.onProgress?.(progress);
+    const { chunk, received } = progress;
+    if (!chunk || !matches) return;
+
+    const offset = received - chunk.length;
+    const overlap = Math.max(0, Math.min(chunk.length, prefix.length - offset));
+    if (offset !== streamed || !sameBytes(chunk, prefix, offset, overlap)) {
+      matches = false;
+      return;
+    }
+    if (overlap < chunk.length) points.push(...parser.push(chunk.subarray(overlap)));
+    streamed = received;
+  };
+
+  const data = await transport.readFile(path, { ...options, onProgress });
+  const append = cached !== undefined && data.length >= prefix.length && sameBytes(prefix, data, 0, prefix.length);
+  const start = append ? cached.bytes : 0;
+  const end = Math.max(start, data.lastIndexOf(NEWLINE) + 1);
+
+  // Parse in one go when the transport didn't stream every chunk or the
+  // cached prefix turned out to be stale
+  if (!matches || streamed !== data.length || append !== (cached !== undefined)) {
+    parser = append ? resumeParser(cached) : new CsvLogParser();
+    points = parser.push(data.subarray(start, end));
+  }
+
+  const tail = new TextDecoder().decode(data.subarray(start, end));
+  return {
+    mode: append ? 'append' : 'full',
+    log: {
+      key,
+      text: (append ? cached.text : '') + tail,
+      bytes: end,
+      size: data.length,
+      modified,
+      md5: md5(data),
+      rows: (append ? cached.rows : 0) + points.length,
+      columns: parser.columns,
+      syncedAt: Date.now()
+    },
+    points,
+    markers: parser.markers,
+    rejected: parser.rejected,
+    channels: parser.channels
+  };
+};
@@ -0,0 +1,111 @@
+// Rough headcount from a CO2 mass balance. With the room volume V, air change
+// rate ACH and CO2 generation g per person, the number of people is
+//   N = V * (dC/dt + ACH * (C - outdoor)) / (g * 10^6)
+// with C in ppm and dC/dt in ppm per hour. Sensor noise makes the rate of
+// rise jumpy, so it is the slope of a line through a few minutes of readings.
+
+import { z } from 'zod';
+import type { OutdoorLevel } from '@/lib/baseline';
+import type { CO2DataPoint } from '@/lib/co2';
+import { readingHolds } from '@/lib/statistics';
+
+const STORAGE_KEY = 'co2-explorer:occupancy';
+
+export const occupancySettingsSchema = z.object({
+  volumeM3: z.number().positive(),
+  ach: z.number().nonnegative(),
+  // CO2 exhaled per person in litres per second
+  generationLps: z.number().positive()
+});
+
+export type OccupancySettings = z.infer<typeof occupancySettingsSchema>;
+
+// A small meeting room, and an adult doing office work (ASHRAE 62.1)
+export const DEFAULT_OCCUPANCY: OccupancySettings = { volumeM3: 50, ach: 1, generationLps: 0.0052 };
+
+// Readings within half of this either side set the rate of rise
+const RATE_WINDOW_SECONDS = 10 * 60;
+
+// Estimates below this count as an empty room
+const OCCUPIED_PEOPLE = 0.5;
+
+export interface OccupancyEstimate {
+  people: Map<CO2DataPoint, number>;
+  peak: number;
+  // Averaged over the time the room was occupied
+  meanOccupied: number;
+  occupiedSeconds: number;
+  personHours: number;
+}
+
+// Least-squares slope of CO2 over hours and the mean CO2 of a window of readings
+const fitWindow = (window: CO2DataPoint[]) => {
+  const n = window.length;
+  const meanT = window.reduce((sum, point) => sum + point.timestamp, 0) / n;
+  const meanC = window.reduce((sum, point) => sum + point.co2_ppm, 0) / n;
+  let stt = 0;
+  let stc = 0;
+  for (const point of window) {
+    stt += (point.timestamp - meanT) ** 2;
+    stc += (point.timestamp - meanT) * (point.co2_ppm - meanC);
+  }
+  return { rate: stt > 0 ? (stc / stt) * 3600 : 0, level: meanC };
+};
+
+export const estimateOccupancy = (
+  data: CO2DataPoint[],
+  { volumeM3, ach, generationLps }: OccupancySettings,
+  outdoor: OutdoorLevel
+): OccupancyEstimate => {
+  // Generation in m³ per hour
+  const generation = (generationLps * 3600) / 1000;
+  const people = new Map<CO2DataPoint, number>();
+  let lo = 0;
+  let hi = 0;
+
+  data.forEach((point, i) => {
+    while (data[lo].timestamp < point.timestamp - RATE_WINDOW_SECONDS / 2) lo++;
+    while (hi + 1 < data.length && data[hi + 1].timestamp <= point.timestamp + RATE_WINDOW_SECONDS / 2) hi++;
+    const window = data.slice(Math.min(lo, i), Math.max(hi, i) + 1);
+    const { rate, level } = fitWindow(window);
+    const estimate = (volumeM3 * (rate + ach * (level - outdoor(point.timestamp)))) / (generation * 1e6);
+    people.set(point, Math.max(0, estimate));
+  });
+
+  const holds = readingHolds(data);
+  let peak = 0;
+  let occupiedSeconds = 0;
+  let personSeconds = 0;
+  let occupiedPersonSeconds = 0;
+  data.forEach((point, i) => {
+    const count = people.get(point) ?? 0;
+    peak = Math.max(peak, count);
+    personSeconds += count * holds[i];
+    if (count >= OCCUPIED_PEOPLE) {
+      occupiedSeconds += holds[i];
+      occupiedPersonSeconds += count * holds[i];
+    }
+  });
+
+  return {
+    people,
+    peak,
+    meanOccupied: occupiedSeconds > 0 ? occupiedPersonSeconds / occupiedSeconds : 0,
+    occupiedSeconds,
+    personHours: personSeconds / 3600
+  };
+};
+
+export const loadOccupancySettings = (): OccupancySettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? occupancySettingsSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_OCCUPANCY;
+  } catch {
+    return DEFAULT_OCCUPANCY;
+  }
+};
+
+export const saveOccupancySettings = (settings: OccupancySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2DataPoint } from './co2';
+import { intervalStart, lttb, nearestReading, processReadings, resample, smooth, type Aggregate } from './resample';
+
+const points = (...readings: [number, number][]): CO2DataPoint[] =>
+  readings.map(([timestamp, co2_ppm]) => ({ timestamp, co2_ppm, channels: {} }));
+
+const ppm = (data: CO2DataPoint[]) => data.map(point => point.co2_ppm);
+
+describe('intervalStart', () => {
+  it.each([
+    [0, 60, 0],
+    [59, 60, 0],
+    [60, 60, 60],
+    [1700000123, 3600, 1699999200]
+  ])('puts %i in the %i s interval starting at %i', (timestamp, interval, start) => {
+    expect(intervalStart(timestamp, interval)).toBe(start);
+  });
+});
+
+describe('resample', () => {
+  const data: CO2DataPoint[] = [
+    { timestamp: 0, co2_ppm: 400, channels: { temperature: 20 } },
+    { timestamp: 30, co2_ppm: 600, channels: {} },
+    { timestamp: 60, co2_ppm: 800, channels: { temperature: 21 } },
+    { timestamp: 90, co2_ppm: 700, channels: { temperature: 23 } },
+    // Nothing between 120 and 180, so no point for that interval
+    { timestamp: 200, co2_ppm: 900, channels: { temperature: 22 } }
+  ];
+
+  it.each<[Aggregate, number[], (number | undefined)[]]>([
+    ['mean', [500, 750, 900], [20, 22, 22]],
+    ['min', [400, 700, 900], [20, 21, 22]],
+    ['max', [600, 800, 900], [20, 23, 22]]
+  ])('takes the %s of each interval', (aggregate, co2, temperature) => {
+    const resampled = resample(data, 60, aggregate);
+    expect(resampled.map(point => point.timestamp)).toEqual([0, 60, 180]);
+    expect(ppm(resampled)).toEqual(co2);
+    expect(resampled.map(point => point.channels.temperature)).toEqual(temperature);
+  });
+
+  it('combines buckets too large to spread into Math.min', () => {
+    const many = Array.from({ length: 200000 }, (_, i) => ({ timestamp: i % 60, co2_ppm: 400 + i, channels: {} }));
+    expect(ppm(resample(many, 60, 'min'))).toEqual([400]);
+    expect(ppm(resample(many, 60, 'max'))).toEqual([400 + 199999]);
+  });
+});
+
+describe('smooth', () => {
+  // A one-reading spike in otherwise steady readings a minute apart
+  const spiky = points([0, 480], [60, 510], [120, 2010], [180, 540], [240, 570]);
+
+  it.each<[Parameters<typeof smooth>[1], number, number[]]>([
+    ['none', 180, [480, 510, 2010, 540, 570]],
+    ['median', 180, [495, 510, 540, 570, 555]],
+    ['mean', 180, [495, 1000, 1020, 1040, 555]],
+    // Windows narrower than the spacing hold each reading alone
+    ['median', 60, [480, 510, 2010, 540, 570]]
+  ])('with %s over %i s', (smoothing, windowSeconds, expected) => {
+    expect(ppm(smooth(spiky, smoothing, windowSeconds))).toEqual(expected);
+  });
+
+  it('leaves timestamps and other channels as they are', () => {
+    const data = [{ timestamp: 0, co2_ppm: 500, channels: { temperature: 21 } }, ...points([60, 700])];
+    expect(smooth(data, 'mean', 300)).toEqual([
+      { timestamp: 0, co2_ppm: 600, channels: { temperature: 21 } },
+      { timestamp: 60, co2_ppm: 600, channels: {} }
+    ]);
+  });
+});
+
+describe('processReadings', () => {
+  it('resamples before smoothing', () => {
+    const data = points([0, 400], [30, 600], [60, 800], [90, 1000], [120, 1200]);
+    const processed = processReadings(data, {
+      resampleSeconds: 60,
+      aggregate: 'mean',
+      smoothing: 'mean',
+      smoothingSeconds: 120
+    });
+    // Means of 500, 900 and 1200 over their neighbours
+    expect(processed.map(point => [point.timestamp, point.co2_ppm])).toEqual([
+      [0, 700],
+      [60, 2600 / 3],
+      [120, 1050]
+    ]);
+  });
+});
+
+describe('nearestReading', () => {
+  const data = points([100, 400], [200, 500], [400, 600]);
+
+  it.each([
+    [0, 100],
+    [149, 100],
+    // A tie goes to the earlier reading
+    [150, 100],
+    [151, 200],
+    [300, 200],
+    [301, 400],
+    [1000, 400]
+  ])('picks the reading closest to %i', (timestamp, expected) => {
+    expect(nearestReading(data, timestamp)?.timestamp).toBe(expected);
+  });
+
+  it('has nothing to pick without readings', () => {
+    expect(nearestReading([], 100)).toBeUndefined();
+  });
+});
+
+describe('lttb', () => {
+  const x = (point: CO2DataPoint) => point.timestamp;
+  const y = (point: CO2DataPoint) => point.co2_ppm;
+  const line = Array.from({ length: 100 }, (_, i) => ({
+    timestamp: i * 60,
+    co2_ppm: i === 37 ? 3000 : i === 71 ? 100 : 500,
+    channels: {}
+  }));
+
+  it.each([100, 150, 2, 0])('returns the items as they are for a threshold of %i', threshold => {
+    expect(lttb(line, threshold, x, y)).toBe(line);
+  });
+
+  it.each([3, 10, 50])('keeps %i of the original items, ends and peaks included', threshold => {
+    const sampled = lttb(line, threshold, x, y);
+    expect(sampled).toHaveLength(threshold);
+    expect(sampled.every(point => line.includes(point))).toBe(true);
+    expect(sampled[0]).toBe(line[0]);
+    expect(sampled[threshold - 1]).toBe(line[99]);
+    expect(ppm(sampled)).toContain(3000);
+    if (threshold > 3) expect(ppm(sampled)).toContain(100);
+  });
+
+  it('keeps items in their original order', () => {
+    const sampled = lttb(line, 20, x, y).map(x);
+    expect(sampled).toEqual([...sampled].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,171 @@
+// Reducing and smoothing readings for display. Multi-day logs hold tens of
+// thousands of rows, far more than a chart has pixels; exports and analyses
+// keep working on the full readings.
+
+import { z } from 'zod';
+import type { CO2DataPoint } from '@/lib/co2';
+
+const STORAGE_KEY = 'co2-explorer:chart-processing';
+
+export const AGGREGATES = ['mean', 'min', 'max'] as const;
+export type Aggregate = (typeof AGGREGATES)[number];
+
+export const SMOOTHINGS = ['none', 'mean', 'median'] as const;
+export type Smoothing = (typeof SMOOTHINGS)[number];
+
+export const processingSettingsSchema = z.object({
+  // 0 keeps every reading
+  resampleSeconds: z.number().int().nonnegative(),
+  aggregate: z.enum(AGGREGATES),
+  smoothing: z.enum(SMOOTHINGS),
+  smoothingSeconds: z.number().int().positive()
+});
+
+export type ProcessingSettings = z.infer<typeof processingSettingsSchema>;
+
+export const DEFAULT_PROCESSING: ProcessingSettings = {
+  resampleSeconds: 0,
+  aggregate: 'mean',
+  smoothing: 'none',
+  smoothingSeconds: 5 * 60
+};
+
+// Buckets can hold thousands of readings, too many to spread into Math.min
+const combine = (values: number[], aggregate: Aggregate) => {
+  switch (aggregate) {
+    case 'mean':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return values.reduce((min, value) => Math.min(min, value), Infinity);
+    case 'max':
+      return values.reduce((max, value) => Math.max(max, value), -Infinity);
+  }
+};
+
+// Start of the fixed interval a time falls in
+export const intervalStart = (timestamp: number, intervalSeconds: number) =>
+  Math.floor(timestamp / intervalSeconds) * intervalSeconds;
+
+// One point per fixed interval that has readings, stamped with the interval's start
+export const resample = (data: CO2DataPoint[], intervalSeconds: number, aggregate: Aggregate): CO2DataPoint[] => {
+  const buckets = new Map<number, CO2DataPoint[]>();
+  for (const point of data) {
+    const start = intervalStart(point.timestamp, intervalSeconds);
+    const bucket = buckets.get(start);
+    if (bucket) bucket.push(point);
+    else buckets.set(start, [point]);
+  }
+
+  return [...buckets].map(([timestamp, points]) => {
+    const channels: Record<string, number> = {};
+    const keys = new Set(points.flatMap(point => Object.keys(point.channels)));
+    for (const key of keys) {
+      const values = points.map(point => point.channels[key]).filter(value => value !== undefined);
+      channels[key] = combine(values, aggregate);
+    }
+    return { timestamp, co2_ppm: combine(points.map(point => point.co2_ppm), aggregate), channels };
+  });
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// CO2 averaged over a window centred on each reading; other channels are left as they are
+export const smooth = (data: CO2DataPoint[], smoothing: Smoothing, windowSeconds: number): CO2DataPoint[] => {
+  if (smoothing === 'none') return data;
+  let lo = 0;
+  let hi = 0;
+  return data.map(point => {
+    while (data[lo].timestamp < point.timestamp - windowSeconds / 2) lo++;
+    while (hi < data.length && data[hi].timestamp <= point.timestamp + windowSeconds / 2) hi++;
+    const values = data.slice(lo, hi).map(p => p.co2_ppm);
+    return { ...point, co2_ppm: smoothing === 'mean' ? combine(values, 'mean') : median(values) };
+  });
+};
+
+// Resample, then smooth, as the user chose for the chart
+export const processReadings = (data: CO2DataPoint[], settings: ProcessingSettings): CO2DataPoint[] => {
+  const resampled = settings.resampleSeconds > 0 ? resample(data, settings.resampleSeconds, settings.aggregate) : data;
+  return smooth(resampled, settings.smoothing, settings.smoothingSeconds);
+};
+
+// Reading closest in time, for mapping a resampled or smoothed point back to
+// what was logged; `data` is in time order
+export const nearestReading = (data: CO2DataPoint[], timestamp: number): CO2DataPoint | undefined => {
+  if (data.length === 0) return undefined;
+  let lo = 0;
+  let hi = data.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (data[mid].timestamp < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  const before = data[lo - 1];
+  return before && timestamp - before.timestamp <= data[lo].timestamp - timestamp ? before : data[lo];
+};
+
+// Largest-Triangle-Three-Buckets: picks `threshold` of the items that keep the
+// shape of the line, always including the first and last. The items returned
+// are the originals.
+export const lttb = <T>(items: T[], threshold: number, x: (item: T) => number, y: (item: T) => number): T[] => {
+  if (threshold >= items.length || threshold < 3) return items;
+
+  const sampled: T[] = [items[0]];
+  const bucketSize = (items.length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket, the third corner of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, items.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += x(items[i]);
+      avgY += y(items[i]);
+    }
+    const nextCount = Math.max(1, nextEnd - nextStart);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    const ax = x(items[previous]);
+    const ay = y(items[previous]);
+    let largest = -1;
+    let chosen = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs((ax - avgX) * (y(items[i]) - ay) - (ax - x(items[i])) * (avgY - ay));
+      if (area > largest) {
+        largest = area;
+        chosen = i;
+      }
+    }
+    sampled.push(items[chosen]);
+    previous = chosen;
+  }
+
+  sampled.push(items[items.length - 1]);
+  return sampled;
+};
+
+// Readings for a chart `width` pixels wide: about one per pixel
+export const downsampleForWidth = (data: CO2DataPoint[], width: number): CO2DataPoint[] =>
+  width > 0 ? lttb(data, Math.round(width), point => point.timestamp, point => point.co2_ppm) : data;
+
+export const loadProcessingSettings = (): ProcessingSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? processingSettingsSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_PROCESSING;
+  } catch {
+    return DEFAULT_PROCESSING;
+  }
+};
+
+export const saveProcessingSettings = (settings: ProcessingSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,129 @@
+// Rules for cutting the continuous stream of readings into logging sessions.
+// Sessions are always derived from the full list of points, so changing the
+// rule or editing a session simply recomputes them.
+
+import { z } from 'zod';
+import {
+  deviceTime,
+  SESSION_GAP_SECONDS,
+  toSession,
+  type CO2DataPoint,
+  type LogMarker,
+  type LoggingSession
+} from '@/lib/co2';
+import { EMPTY_EDITS, type SessionEdits } from '@/lib/session-edits';
+
+const RULE_KEY = 'co2-explorer:segmentation';
+
+// Shortest gap that ends a session; anything shorter cuts a session per reading
+export const MIN_SESSION_GAP_SECONDS = 60;
+
+export const segmentationRuleSchema = z.discriminatedUnion('kind', [
+  // A pause in logging longer than the threshold
+  z.object({ kind: z.literal('gap'), gapSeconds: z.number().int().min(MIN_SESSION_GAP_SECONDS) }),
+  // Local midnight
+  z.object({ kind: z.literal('day') }),
+  // Marker rows written by the logger
+  z.object({ kind: z.literal('marker') }),
+  // Nowhere; only the user's own splits apply
+  z.object({ kind: z.literal('manual') })
+]);
+
+export type SegmentationRule = z.infer<typeof segmentationRuleSchema>;
+export type SegmentationKind = SegmentationRule['kind'];
+
+export const DEFAULT_SEGMENTATION: SegmentationRule = { kind: 'gap', gapSeconds: SESSION_GAP_SECONDS };
+
+export const SEGMENTATION_LABELS: Record<SegmentationKind, string> = {
+  gap: 'Logging gaps',
+  day: 'Calendar days',
+  marker: 'Marker rows',
+  manual: 'Manual splits'
+};
+
+// Decides whether `point` opens a new session after `previous`
+type Boundary = (previous: CO2DataPoint, point: CO2DataPoint) => boolean;
+
+// Boundary at each of the given times: the first point at or after one starts
+// a session. `timeOf` picks the timeline the times are on.
+const boundaryAt = (times: number[], timeOf = (point: CO2DataPoint) => point.timestamp): Boundary => {
+  const sorted = [...times].sort((a, b) => a - b);
+  return (previous, point) => {
+    // First time after the previous point, by binary search
+    const from = timeOf(previous);
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] > from) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo < sorted.length && sorted[lo] <= timeOf(point);
+  };
+};
+
+const never: Boundary = () => false;
+
+// Calendar day of a device timestamp, as shown to the user
+export type DayOf = (seconds: number) => string;
+
+const localDay: DayOf = seconds => new Date(seconds * 1000).toDateString();
+
+const boundaryFor = (rule: SegmentationRule, markers: LogMarker[], dayOf: DayOf): Boundary => {
+  switch (rule.kind) {
+    case 'gap':
+      return (previous, point) => point.timestamp - previous.timestamp > rule.gapSeconds;
+    case 'day':
+      return (previous, point) => dayOf(previous.timestamp) !== dayOf(point.timestamp);
+    case 'marker':
+      return boundaryAt(markers.map(marker => marker.timestamp));
+    case 'manual':
+      return never;
+  }
+};
+
+// Split the points by the rule, then apply the user's splits and merges
+export const segmentSessions = (
+  points: CO2DataPoint[],
+  rule: SegmentationRule,
+  {
+    markers = [],
+    edits = EMPTY_EDITS,
+    dayOf = localDay
+  }: { markers?: LogMarker[]; edits?: SessionEdits; dayOf?: DayOf } = {}
+): LoggingSession[] => {
+  const automatic = boundaryFor(rule, markers, dayOf);
+  // The user's edits are on the device's timeline, the rule on the corrected one
+  const split = boundaryAt(edits.splits, deviceTime);
+  const merged = new Set(edits.merges);
+  const isBoundary: Boundary = (previous, point) =>
+    split(previous, point) || (automatic(previous, point) && !merged.has(deviceTime(point)));
+
+  const sessions: LoggingSession[] = [];
+  let current: CO2DataPoint[] = [];
+
+  points.forEach((point, i) => {
+    if (i > 0 && isBoundary(points[i - 1], point)) {
+      sessions.push(toSession(sessions.length, current));
+      current = [];
+    }
+    current.push(point);
+  });
+  if (current.length > 0) sessions.push(toSession(sessions.length, current));
+
+  return sessions;
+};
+
+export const loadSegmentationRule = (): SegmentationRule => {
+  try {
+    const saved = localStorage.getItem(RULE_KEY);
+    const parsed = saved ? segmentationRuleSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_SEGMENTATION;
+  } catch {
+    return DEFAULT_SEGMENTATION;
+  }
+};
+
+export const saveSegmentationRule = (rule: SegmentationRule) => {
+  localStorage.setItem(RULE_KEY, JSON.stringify(rule));
+};
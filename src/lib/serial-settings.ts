@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+const STORAGE_KEY = 'co2-explorer:serial-settings';
+
+export const BAUD_RATES = [9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
+export const FLOW_CONTROLS = ['none', 'hardware'] as const;
+
+const usbId = z.number().int().min(0).max(0xffff);
+
+// A device is allowed when its vendor matches and, if given, its product too
+export const usbFilterSchema = z.object({
+  usbVendorId: usbId,
+  usbProductId: usbId.optional()
+});
+
+export const serialSettingsSchema = z.object({
+  baudRate: z.number().int().positive(),
+  // Size of the browser's read and write buffers in bytes
+  bufferSize: z.number().int().min(64).max(16 * 1024 * 1024),
+  flowControl: z.enum(FLOW_CONTROLS),
+  usbFilters: z.array(usbFilterSchema).min(1)
+});
+
+export type UsbFilter = z.infer<typeof usbFilterSchema>;
+export type SerialSettings = z.infer<typeof serialSettingsSchema>;
+
+// Flipper Zero's CDC port (STMicroelectronics VID, Flipper PID)
+export const DEFAULT_SERIAL_SETTINGS: SerialSettings = {
+  baudRate: 230400,
+  bufferSize: 4096,
+  flowControl: 'none',
+  usbFilters: [{ usbVendorId: 0x0483, usbProductId: 0x5740 }]
+};
+
+// Saved settings, or the defaults when nothing valid has been saved
+export const loadSerialSettings = (): SerialSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SERIAL_SETTINGS;
+    const parsed = serialSettingsSchema.safeParse(JSON.parse(saved));
+    return parsed.success ? parsed.data : DEFAULT_SERIAL_SETTINGS;
+  } catch {
+    return DEFAULT_SERIAL_SETTINGS;
+  }
+};
+
+export const saveSerialSettings = (settings: SerialSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(serialSettingsSchema.parse(settings)));
+};
+
+// USB IDs are conventionally written as four hex digits, e.g. 0x0483
+export const formatUsbId = (id: number) => `0x${id.toString(16).padStart(4, '0')}`;
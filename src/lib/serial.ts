@@ -0,0 +1,99 @@
+import type { SerialSettings, UsbFilter } from '@/lib/serial-settings';
+
+// Type definitions for Web Serial API
+declare global {
+  interface Navigator {
+    serial: Serial;
+  }
+}
+
+interface Serial extends EventTarget {
+  requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
+  getPorts(): Promise<SerialPort[]>;
+}
+
+interface SerialPortRequestOptions {
+  filters?: SerialPortFilter[];
+}
+
+interface SerialPortFilter {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+export interface SerialPort extends EventTarget {
+  open(options: SerialOptions): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): SerialPortInfo;
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface SerialOptions {
+  baudRate: number;
+  bufferSize?: number;
+  flowControl?: 'none' | 'hardware';
+}
+
+interface SerialPortInfo {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+export const isSerialSupported = () => 'serial' in navigator;
+
+// Request permission to access a Flipper Zero or another allowed board
+export const requestFlipperPort = async (filters: UsbFilter[]): Promise<SerialPort | null> => {
+  try {
+    const port = await navigator.serial.requestPort({ filters });
+    return port;
+  } catch (err) {
+    console.error('No Flipper Zero or permission denied:', err);
+    return null;
+  }
+};
+
+export const isFlipperPort = (port: SerialPort, filters: UsbFilter[]) => {
+  const info = port.getInfo();
+  return filters.some(
+    filter =>
+      info.usbVendorId === filter.usbVendorId &&
+      (filter.usbProductId === undefined || info.usbProductId === filter.usbProductId)
+  );
+};
+
+// Auto-detect previously granted ports that are still allowed
+export const findGrantedFlippers = async (filters: UsbFilter[]): Promise<SerialPort[]> => {
+  const ports = await navigator.serial.getPorts();
+  return ports.filter(port => isFlipperPort(port, filters));
+};
+
+// Open the serial port with the configured line settings
+export const openFlipperPort = async (
+  port: SerialPort,
+  { baudRate, bufferSize, flowControl }: SerialSettings
+) => {
+  await port.open({ baudRate, bufferSize, flowControl });
+  return {
+    reader: port.readable!.getReader(),
+    writer: port.writable!.getWriter()
+  };
+};
+
+// Release the stream locks and close the port. Errors are logged rather than
+// thrown: after an unplug the streams are already errored and close() rejects.
+export const closeFlipperPort = async (
+  port: SerialPort,
+  streams?: { reader: ReadableStreamDefaultReader<Uint8Array>; writer: WritableStreamDefaultWriter<Uint8Array> }
+) => {
+  try {
+    if (streams) {
+      await streams.reader.cancel().catch(() => undefined);
+      streams.reader.releaseLock();
+      streams.writer.releaseLock();
+    }
+    await port.close();
+  } catch (err) {
+    console.error('Error while closing Flipper Zero port:', err);
+  }
+};
@@ -0,0 +1,115 @@
+// User edits to the automatically found sessions of a log. They are kept
+// apart from the log itself, keyed by reading times rather than positions, so
+// they still apply after a re-sync or when new rows are appended. Splits,
+// merges, trims and session keys use the times the device wrote, so applying
+// or undoing a clock correction keeps them too.
+
+import { z } from 'zod';
+import { annotationSchema, type Annotation } from '@/lib/annotations';
+import { clockCorrectionSchema, type ClockCorrection } from '@/lib/clock';
+import { deviceTime, toSession, type LoggingSession } from '@/lib/co2';
+
+const STORAGE_KEY = 'co2-explorer:session-edits';
+
+const sessionDetailsSchema = z.object({
+  name: z.string().optional(),
+  location: z.string().optional(),
+  notes: z.string().optional()
+});
+
+export const sessionEditsSchema = z.object({
+  // Times at which the user started a new session
+  splits: z.array(z.number()),
+  // First readings of sessions the user merged into the one before
+  merges: z.array(z.number()),
+  // Per session key: readings before this time are left out
+  trims: z.record(z.number()),
+  // Per session key
+  details: z.record(sessionDetailsSchema),
+  // Fixes for the logger's clock, applied to raw timestamps before segmenting
+  clock: z.array(clockCorrectionSchema).default([]),
+  annotations: z.array(annotationSchema).default([])
+});
+
+export type SessionDetails = z.infer<typeof sessionDetailsSchema>;
+export type SessionEdits = z.infer<typeof sessionEditsSchema>;
+
+export const EMPTY_EDITS: SessionEdits = { splits: [], merges: [], trims: {}, details: {}, clock: [], annotations: [] };
+
+const loadAll = (): Record<string, SessionEdits> => {
+  try {
+    const parsed = z.record(sessionEditsSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}'));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+};
+
+// Edits of one log, by log cache key
+export const loadSessionEdits = (logKey: string): SessionEdits => loadAll()[logKey] ?? EMPTY_EDITS;
+
+export const saveSessionEdits = (logKey: string, edits: SessionEdits) => {
+  const all = loadAll();
+  all[logKey] = edits;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+// Start a new session at `time`, undoing a merge there
+export const splitAt = (edits: SessionEdits, time: number): SessionEdits => ({
+  ...edits,
+  splits: [...edits.splits.filter(split => split !== time), time].sort((a, b) => a - b),
+  merges: edits.merges.filter(merge => merge !== time)
+});
+
+// Join a session ending at `end` with the next one starting at `start`
+export const mergeBetween = (edits: SessionEdits, end: number, start: number): SessionEdits => ({
+  ...edits,
+  splits: edits.splits.filter(split => split <= end || split > start),
+  merges: [...edits.merges.filter(merge => merge !== start), start]
+});
+
+export const trimSession = (edits: SessionEdits, key: string, from?: number): SessionEdits => {
+  const trims = { ...edits.trims };
+  if (from === undefined) {
+    delete trims[key];
+  } else {
+    trims[key] = from;
+  }
+  return { ...edits, trims };
+};
+
+export const updateDetails = (edits: SessionEdits, key: string, details: SessionDetails): SessionEdits => ({
+  ...edits,
+  details: { ...edits.details, [key]: details }
+});
+
+export const setClockCorrections = (edits: SessionEdits, clock: ClockCorrection[]): SessionEdits => ({
+  ...edits,
+  clock
+});
+
+export const addAnnotations = (edits: SessionEdits, added: Annotation[]): SessionEdits => ({
+  ...edits,
+  annotations: [...edits.annotations, ...added]
+});
+
+export const updateAnnotation = (edits: SessionEdits, updated: Annotation): SessionEdits => ({
+  ...edits,
+  annotations: edits.annotations.map(annotation => (annotation.id === updated.id ? updated : annotation))
+});
+
+export const removeAnnotation = (edits: SessionEdits, id: string): SessionEdits => ({
+  ...edits,
+  annotations: edits.annotations.filter(annotation => annotation.id !== id)
+});
+
+// Apply trims and details to segmented sessions. A trim that would leave a
+// session empty is ignored.
+export const applySessionEdits = (sessions: LoggingSession[], edits: SessionEdits): LoggingSession[] =>
+  sessions.map(session => {
+    const from = edits.trims[session.key];
+    const data = from === undefined ? session.data : session.data.filter(point => deviceTime(point) >= from);
+    const trimmed = data.length > 0 && data.length < session.data.length ? toSession(session.id, data, session.key) : session;
+    const details = edits.details[session.key];
+    return details ? { ...trimmed, ...details } : trimmed;
+  });
@@ -0,0 +1,41 @@
+// Sessions written back out as CSV in the logger's own layout, so an export
+// can be opened in a spreadsheet or loaded again. Exports always hold every
+// reading, whatever the chart shows. Annotations become the logger's marker
+// rows, which the parser reads back as markers.
+
+import { endMarkerLabel, type Annotation } from '@/lib/annotations';
+import type { CO2DataPoint, SensorChannel } from '@/lib/co2';
+
+// Keyword in the CO2 column of a marker row
+const MARKER_KEYWORD = 'MARK';
+
+// Quoted only where the text needs it
+const cell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header such as "Temperature (°C)", which the parser reads back as the same channel
+const channelHeader = (channel: SensorChannel) =>
+  channel.unit ? `${channel.label} (${channel.unit})` : channel.label;
+
+// A span is written as a marker at each end
+const markerRows = (annotation: Annotation): (string | number)[][] =>
+  annotation.to === undefined
+    ? [[annotation.from, MARKER_KEYWORD, annotation.label]]
+    : [
+        [annotation.from, MARKER_KEYWORD, annotation.label],
+        [annotation.to, MARKER_KEYWORD, endMarkerLabel(annotation)]
+      ];
+
+export const sessionToCsv = (data: CO2DataPoint[], channels: SensorChannel[], annotations: Annotation[] = []) => {
+  const header = ['timestamp', 'co2_ppm', ...channels.map(channelHeader)];
+  const rows: (string | number)[][] = data.map(point => [
+    point.timestamp,
+    point.co2_ppm,
+    ...channels.map(channel => point.channels[channel.key] ?? '')
+  ]);
+  // Sorting is stable, so a marker follows the reading logged at the same time
+  const all = [...rows, ...annotations.flatMap(markerRows)].sort((a, b) => Number(a[0]) - Number(b[0]));
+  return [header, ...all].map(row => row.map(cell).join(',')).join('\n') + '\n';
+};
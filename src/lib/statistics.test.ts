@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2DataPoint } from './co2';
+import { computeStatistics, parseThresholds, percentile, readingHolds } from './statistics';
+
+const points = (...readings: [number, number][]): CO2DataPoint[] =>
+  readings.map(([timestamp, co2_ppm]) => ({ timestamp, co2_ppm, channels: {} }));
+
+// One-minute readings with a pause in logging between 120 s and 600 s
+const WITH_GAP = points([0, 400], [60, 800], [120, 1000], [600, 1200], [660, 900]);
+
+describe('percentile', () => {
+  it.each([
+    [[500], 50, 500],
+    [[400, 800], 50, 600],
+    [[400, 800, 900, 1000, 1200], 0, 400],
+    [[400, 800, 900, 1000, 1200], 5, 480],
+    [[400, 800, 900, 1000, 1200], 25, 800],
+    [[400, 800, 900, 1000, 1200], 95, 1160],
+    [[400, 800, 900, 1000, 1200], 100, 1200]
+  ])('of %j at %i is %f', (sorted, p, expected) => {
+    expect(percentile(sorted, p)).toBeCloseTo(expected);
+  });
+});
+
+describe('readingHolds', () => {
+  it.each<[string, CO2DataPoint[], number[]]>([
+    ['holds each reading until the next', points([0, 400], [60, 410], [120, 420]), [60, 60, 60]],
+    ['holds at most three intervals across a gap', WITH_GAP, [60, 60, 180, 60, 60]],
+    [
+      'holds a shorter step only as long as it lasts',
+      points([0, 400], [60, 410], [90, 420], [150, 430]),
+      [60, 30, 60, 60]
+    ],
+    ['holds a single reading for the default interval', points([0, 400]), [60]]
+  ])('%s', (_, data, holds) => {
+    expect(readingHolds(data)).toEqual(holds);
+  });
+});
+
+describe('computeStatistics', () => {
+  it('has nothing to report without readings', () => {
+    expect(computeStatistics([], [1000])).toBeUndefined();
+  });
+
+  it('weighs readings by the time they hold, not across gaps', () => {
+    const stats = computeStatistics(WITH_GAP, [1400, 800, 1000])!;
+    expect(stats).toMatchObject({
+      count: 5,
+      min: 400,
+      max: 1200,
+      mean: 860,
+      median: 900,
+      percentiles: { 5: 480, 25: 800, 75: 1000, 95: 1160 },
+      durationSeconds: 660,
+      measuredSeconds: 420,
+      interval: 60
+    });
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(70400));
+    // 1000 ppm held for 180 s pulls the weighted mean above the plain one
+    expect(stats.timeWeightedMean).toBeCloseTo(900);
+    expect(stats.above).toEqual([
+      { ppm: 800, seconds: 360, share: 360 / 420 },
+      { ppm: 1000, seconds: 240, share: 240 / 420 },
+      { ppm: 1400, seconds: 0, share: 0 }
+    ]);
+  });
+
+  it('counts a reading equal to a threshold as at or above it', () => {
+    const stats = computeStatistics(points([0, 999], [60, 1000], [120, 1001]), [1000])!;
+    expect(stats.above).toEqual([{ ppm: 1000, seconds: 120, share: 120 / 180 }]);
+  });
+});
+
+describe('parseThresholds', () => {
+  it.each([
+    ['800, 1000 1400', [800, 1000, 1400]],
+    ['1400;800\n1000', [800, 1000, 1400]],
+    ['1000, 1000, 800', [800, 1000]],
+    ['', undefined],
+    ['800, -5', undefined],
+    ['800, high', undefined]
+  ])('reads %j', (text, thresholds) => {
+    expect(parseThresholds(text)).toEqual(thresholds);
+  });
+});
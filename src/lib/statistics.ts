@@ -0,0 +1,117 @@
+// Summary numbers of a session's CO2 readings, as needed for facilities
+// reports. Time-based figures hold each reading until the next one, but never
+// across a sampling gap, so a pause in logging doesn't count as time at the
+// last value.
+
+import { z } from 'zod';
+import { samplingInterval, type CO2DataPoint } from '@/lib/co2';
+import { GAP_INTERVALS } from '@/lib/data-quality';
+
+const THRESHOLDS_KEY = 'co2-explorer:thresholds';
+
+export const thresholdsSchema = z.array(z.number().positive()).min(1);
+
+export const DEFAULT_THRESHOLDS = [800, 1000, 1400];
+
+export const PERCENTILES = [5, 25, 75, 95] as const;
+
+export interface ThresholdTime {
+  ppm: number;
+  // Time at or above the threshold
+  seconds: number;
+  // Part of the measured time, 0-1
+  share: number;
+}
+
+export interface SessionStatistics {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  // By percentile in PERCENTILES
+  percentiles: Record<number, number>;
+  stdDev: number;
+  timeWeightedMean: number;
+  // From the first to the last reading
+  durationSeconds: number;
+  // Time the readings account for, i.e. the duration without gaps
+  measuredSeconds: number;
+  // Typical seconds between readings
+  interval: number;
+  above: ThresholdTime[];
+}
+
+// Linear interpolation between the closest ranks of sorted values
+export const percentile = (sorted: number[], p: number) => {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Seconds each reading stands for: until the next one, at most a gap's
+// length, and one interval for the last
+export const readingHolds = (data: CO2DataPoint[], interval = samplingInterval(data)): number[] =>
+  data.map((point, i) =>
+    i < data.length - 1 ? Math.min(data[i + 1].timestamp - point.timestamp, interval * GAP_INTERVALS) : interval
+  );
+
+export const computeStatistics = (data: CO2DataPoint[], thresholds: number[]): SessionStatistics | undefined => {
+  if (data.length === 0) return undefined;
+
+  const values = data.map(point => point.co2_ppm);
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = values.length;
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count;
+
+  const interval = samplingInterval(data);
+  const holds = readingHolds(data, interval);
+  const measuredSeconds = holds.reduce((sum, hold) => sum + hold, 0);
+  const weighted = values.reduce((sum, value, i) => sum + value * holds[i], 0);
+
+  const above = [...thresholds]
+    .sort((a, b) => a - b)
+    .map(ppm => {
+      const seconds = values.reduce((sum, value, i) => (value >= ppm ? sum + holds[i] : sum), 0);
+      return { ppm, seconds, share: measuredSeconds > 0 ? seconds / measuredSeconds : 0 };
+    });
+
+  return {
+    count,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    median: percentile(sorted, 50),
+    percentiles: Object.fromEntries(PERCENTILES.map(p => [p, percentile(sorted, p)])),
+    stdDev: Math.sqrt(variance),
+    timeWeightedMean: measuredSeconds > 0 ? weighted / measuredSeconds : mean,
+    durationSeconds: data[count - 1].timestamp - data[0].timestamp,
+    measuredSeconds,
+    interval,
+    above
+  };
+};
+
+// Thresholds typed as "800, 1000 1400"; undefined unless every entry is a positive number
+export const parseThresholds = (text: string): number[] | undefined => {
+  const entries = text.split(/[\s,;]+/).filter(Boolean);
+  const values = entries.map(Number);
+  const parsed = thresholdsSchema.safeParse(values);
+  return parsed.success ? [...new Set(parsed.data)].sort((a, b) => a - b) : undefined;
+};
+
+export const loadThresholds = (): number[] => {
+  try {
+    const saved = localStorage.getItem(THRESHOLDS_KEY);
+    const parsed = saved ? thresholdsSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_THRESHOLDS;
+  } catch {
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+export const saveThresholds = (thresholds: number[]) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createTimeFormatter } from './time';
+
+// 2023-11-14 22:13:20 UTC, 17:13:20 in New York
+const NEAR = 1700000000;
+
+describe('parseTime', () => {
+  const newYork = createTimeFormatter({ timeZone: 'America/New_York', locale: 'en-US', clockOffsetSeconds: 0 });
+  const berlinFast = createTimeFormatter({ timeZone: 'Europe/Berlin', locale: 'de', clockOffsetSeconds: 3600 });
+
+  it.each([
+    ['5:13:20 PM', NEAR],
+    [' 5:00 PM ', NEAR - 800],
+    ['17:30', NEAR + 1000],
+    ['00:00:00', NEAR - 17 * 3600 - 800],
+    ['17:61', undefined],
+    ['soon', undefined],
+    ['', undefined]
+  ])('reads %j in New York', (text, expected) => {
+    expect(newYork.parseTime(text, NEAR)).toBe(expected);
+  });
+
+  it('undoes the clock offset and zone of the shown time', () => {
+    // Shown as 00:13:20 on the next day in Berlin with the clock an hour fast
+    expect(berlinFast.time(NEAR)).toBe('00:13:20');
+    expect(berlinFast.parseTime('00:13:20', NEAR)).toBe(NEAR);
+    expect(berlinFast.parseTime('00:00', NEAR)).toBe(NEAR - 800);
+  });
+
+  it('reads back every time it shows on the same day', () => {
+    for (let seconds = NEAR - 62000; seconds < NEAR + 24400; seconds += 997) {
+      expect(newYork.parseTime(newYork.time(seconds), NEAR)).toBe(seconds);
+    }
+  });
+});
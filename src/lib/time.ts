@@ -0,0 +1,153 @@
+// Display of the device's epoch timestamps. Readings keep the raw seconds the
+// logger wrote; the clock correction, time zone and locale are only applied
+// when a time is shown.
+
+import { format, isValid, parse } from 'date-fns';
+import { de, enGB, enUS, es, fr, it, ja, nl, pl, ptBR, ru, sv, zhCN, type Locale } from 'date-fns/locale';
+import { z } from 'zod';
+
+const STORAGE_KEY = 'co2-explorer:time-settings';
+
+// Empty strings follow the browser
+export const timeSettingsSchema = z.object({
+  timeZone: z.string(),
+  locale: z.string(),
+  // Added to every device timestamp, for a logger whose clock is off
+  clockOffsetSeconds: z.number().int()
+});
+
+export type TimeSettings = z.infer<typeof timeSettingsSchema>;
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = { timeZone: '', locale: '', clockOffsetSeconds: 0 };
+
+export const LOCALES: Record<string, Locale> = {
+  'en-US': enUS,
+  'en-GB': enGB,
+  de,
+  es,
+  fr,
+  it,
+  ja,
+  nl,
+  pl,
+  'pt-BR': ptBR,
+  ru,
+  sv,
+  'zh-CN': zhCN
+};
+
+// Intl.supportedValuesOf is newer than the ES2020 lib this builds against
+const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+
+export const TIME_ZONES: string[] = supportedValuesOf?.('timeZone') ?? [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const browserLocale = (): Locale => {
+  const language = navigator.language;
+  return LOCALES[language] ?? LOCALES[language.split('-')[0]] ?? enUS;
+};
+
+// Date whose local fields show the wall-clock time in the formatter's zone,
+// which is what date-fns formats
+const zonedDateFactory = (timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+  return (time: Date): Date => {
+    const fields: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+    for (const part of formatter.formatToParts(time)) fields[part.type] = Number(part.value);
+    return new Date(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  };
+};
+
+// Time of day as shown, or typed as 24-hour hours and minutes
+const TIME_FORMATS = ['pp', 'p', 'HH:mm:ss', 'HH:mm'];
+
+// Every zone offset is a multiple of 15 minutes, so days can be looked up per quarter hour
+const DAY_BUCKET_SECONDS = 900;
+
+export interface TimeFormatter {
+  // Corrected epoch seconds of a device timestamp
+  correct: (seconds: number) => number;
+  time: (seconds: number) => string;
+  date: (seconds: number) => string;
+  dateTime: (seconds: number) => string;
+  // Calendar day in the chosen time zone, for grouping
+  day: (seconds: number) => string;
+  // Device timestamp of a typed time of day on the same day as `near`;
+  // undefined unless the text is a time
+  parseTime: (text: string, near: number) => number | undefined;
+}
+
+export const createTimeFormatter = ({ timeZone, locale, clockOffsetSeconds }: TimeSettings): TimeFormatter => {
+  const options = { locale: LOCALES[locale] ?? browserLocale() };
+  const toZoned = timeZone ? zonedDateFactory(timeZone) : (time: Date) => time;
+  const correct = (seconds: number) => seconds + clockOffsetSeconds;
+  const zoned = (seconds: number) => toZoned(new Date(correct(seconds) * 1000));
+
+  // Segmenting by day asks for every reading
+  const days = new Map<number, string>();
+  const day = (seconds: number) => {
+    const bucket = Math.floor(correct(seconds) / DAY_BUCKET_SECONDS);
+    let value = days.get(bucket);
+    if (value === undefined) {
+      value = format(zoned(seconds), 'yyyy-MM-dd');
+      days.set(bucket, value);
+    }
+    return value;
+  };
+
+  return {
+    correct,
+    time: seconds => format(zoned(seconds), 'pp', options),
+    date: seconds => format(zoned(seconds), 'P', options),
+    dateTime: seconds => format(zoned(seconds), 'Pp', options),
+    day,
+    parseTime: (text, near) => {
+      const reference = zoned(near);
+      for (const pattern of TIME_FORMATS) {
+        const parsed = parse(text.trim(), pattern, reference, options);
+        if (isValid(parsed)) return near + Math.round((parsed.getTime() - reference.getTime()) / 1000);
+      }
+      return undefined;
+    }
+  };
+};
+
+export const loadTimeSettings = (): TimeSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? timeSettingsSchema.safeParse(JSON.parse(saved)) : undefined;
+    return parsed?.success ? parsed.data : DEFAULT_TIME_SETTINGS;
+  } catch {
+    return DEFAULT_TIME_SETTINGS;
+  }
+};
+
+export const saveTimeSettings = (settings: TimeSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,106 @@
+// In-memory capture of the bytes exchanged with the Flipper, for the debug
+// console and for attaching to bug reports against the logger firmware.
+
+import type { TrafficDirection } from '@/lib/flipper';
+
+export type TrafficEntry =
+  | { time: number; direction: TrafficDirection; data: Uint8Array }
+  | { time: number; direction: 'note'; text: string };
+
+// Entries kept as objects for the console; a large file dump is thousands of
+// chunks. Older ones move into the export text this many at a time.
+const MAX_ENTRIES = 20000;
+const ARCHIVE_BATCH = 2000;
+// Listeners hear about new entries at most this often
+const NOTIFY_INTERVAL_MS = 100;
+
+export class TrafficLog {
+  private items: TrafficEntry[] = [];
+  // Export text of entries no longer in `items`, oldest first. Blobs let the
+  // browser keep a long capture out of the JS heap.
+  private archived: Blob[] = [];
+  private archivedEntries = 0;
+  private listeners = new Set<() => void>();
+  private notifyTimer: ReturnType<typeof setTimeout> | undefined;
+  // Bumped on every change so React can tell snapshots apart
+  private revision = 0;
+
+  // Bound so it can be handed straight to a SerialChannel
+  record = (direction: TrafficDirection, data: Uint8Array) => {
+    this.push({ time: Date.now(), direction, data });
+  };
+
+  note(text: string) {
+    this.push({ time: Date.now(), direction: 'note', text });
+  }
+
+  clear() {
+    this.items = [];
+    this.archived = [];
+    this.archivedEntries = 0;
+    this.changed();
+  }
+
+  // The most recent entries; earlier ones are only in the export
+  entries(): readonly TrafficEntry[] {
+    return this.items;
+  }
+
+  // How many earlier entries are only in the export
+  get archivedCount() {
+    return this.archivedEntries;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getRevision = () => this.revision;
+
+  // Plain-text dump of the whole capture with both hex and ASCII for every chunk
+  export(): Blob {
+    return new Blob([...this.archived, formatEntries(this.items)], { type: 'text/plain' });
+  }
+
+  private push(entry: TrafficEntry) {
+    this.items.push(entry);
+    if (this.items.length > MAX_ENTRIES) {
+      const archived = this.items.splice(0, ARCHIVE_BATCH);
+      this.archived.push(new Blob([formatEntries(archived)]));
+      this.archivedEntries += archived.length;
+    }
+    this.notifyTimer ??= setTimeout(() => {
+      this.notifyTimer = undefined;
+      this.changed();
+    }, NOTIFY_INTERVAL_MS);
+  }
+
+  private changed() {
+    this.revision++;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const formatEntry = (entry: TrafficEntry) => {
+  const time = new Date(entry.time).toISOString();
+  if (entry.direction === 'note') return `${time} --  ${entry.text}`;
+  return `${time} ${entry.direction.toUpperCase()}  ${toHex(entry.data)}  |${toAscii(entry.data)}|`;
+};
+
+// One line per entry, each ending in a newline so batches join up
+const formatEntries = (entries: TrafficEntry[]) => entries.map(entry => `${formatEntry(entry)}\n`).join('');
+
+export const toHex = (data: Uint8Array) => Array.from(data, byte => byte.toString(16).padStart(2, '0')).join(' ');
+
+// Printable ASCII as is, line endings escaped and anything else as \xNN
+export const toAscii = (data: Uint8Array) =>
+  Array.from(data, byte => {
+    if (byte === 0x0d) return '\\r';
+    if (byte === 0x0a) return '\\n';
+    if (byte === 0x09) return '\\t';
+    if (byte >= 0x20 && byte < 0x7f) return String.fromCharCode(byte);
+    return `\\x${byte.toString(16).padStart(2, '0')}`;
+  }).join('');
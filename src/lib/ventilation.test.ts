@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2DataPoint } from './co2';
+import { decayValue, findDecay, fitDecay } from './ventilation';
+
+const BACKGROUND = 420;
+const START = 1700000000;
+
+const points = (...readings: [number, number][]): CO2DataPoint[] =>
+  readings.map(([timestamp, co2_ppm]) => ({ timestamp, co2_ppm, channels: {} }));
+
+// Readings on an exact decay from START, every `step` seconds for `seconds`
+const decay = ({ excess = 1000, ach = 2, step = 300, seconds = 3600 } = {}): CO2DataPoint[] =>
+  Array.from({ length: seconds / step + 1 }, (_, i) => ({
+    timestamp: START + i * step,
+    co2_ppm: BACKGROUND + excess * Math.exp((-ach * i * step) / 3600),
+    channels: {}
+  }));
+
+describe('fitDecay', () => {
+  it('recovers the air change rate of an exact decay', () => {
+    const result = fitDecay(decay(), { from: START, to: START + 3600 }, BACKGROUND);
+    if (!('fit' in result)) throw new Error(result.reason);
+    expect(result.fit.ach).toBeCloseTo(2, 9);
+    expect(result.fit.excess).toBeCloseTo(1000, 6);
+    expect(result.fit.low).toBeCloseTo(2, 9);
+    expect(result.fit.high).toBeCloseTo(2, 9);
+    expect(result.fit.rSquared).toBeCloseTo(1, 9);
+    expect(result.fit.count).toBe(13);
+  });
+
+  it('fits ln(C - background) by hours and widens the interval by t for n - 2 degrees of freedom', () => {
+    // Residuals of ±0.1 that leave the slope at exactly -1 per hour
+    const data = points(
+      ...[0.1, -0.1, -0.1, 0.1].map((residual, hour): [number, number] => [
+        START + hour * 3600,
+        BACKGROUND + Math.exp(Math.log(1000) - hour + residual)
+      ])
+    );
+    const result = fitDecay(data, { from: START, to: START + 3 * 3600 }, BACKGROUND);
+    if (!('fit' in result)) throw new Error(result.reason);
+    // Standard error sqrt(0.04 / 2 / 5) with t = 4.303 for two degrees of freedom
+    const margin = 4.303 * Math.sqrt(0.04 / 2 / 5);
+    expect(result.fit.ach).toBeCloseTo(1, 9);
+    expect(result.fit.low).toBeCloseTo(1 - margin, 9);
+    expect(result.fit.high).toBeCloseTo(1 + margin, 9);
+    expect(result.fit.rSquared).toBeCloseTo(1 - 0.04 / (5 + 0.04), 9);
+  });
+
+  it('leaves out readings too close to the background', () => {
+    const data = [...decay(), ...points([START + 3900, BACKGROUND + 5])];
+    const result = fitDecay(data, { from: START, to: START + 3900 }, BACKGROUND);
+    if (!('fit' in result)) throw new Error(result.reason);
+    expect(result.fit.count).toBe(13);
+    expect(result.fit.ach).toBeCloseTo(2, 9);
+  });
+
+  it('keeps the lower bound at zero', () => {
+    const data = points([START, 900], [START + 60, 880], [START + 120, 600], [START + 180, 860]);
+    const result = fitDecay(data, { from: START, to: START + 180 }, BACKGROUND);
+    if (!('fit' in result)) throw new Error(result.reason);
+    expect(result.fit.low).toBe(0);
+    expect(result.fit.high).toBeGreaterThan(result.fit.ach);
+  });
+
+  it.each<[string, CO2DataPoint[], string]>([
+    ['too few readings', decay().slice(0, 3), 'Need at least 4 readings 20 ppm above the background'],
+    [
+      'readings at one moment',
+      points([START, 900], [START, 890], [START, 880], [START, 870]),
+      'The selection covers a single moment'
+    ],
+    [
+      'rising CO2',
+      points([START, 600], [START + 60, 650], [START + 120, 700], [START + 180, 750]),
+      'CO2 is not falling in the selection'
+    ]
+  ])('refuses %s', (_, data, reason) => {
+    expect(fitDecay(data, { from: START, to: START + 3600 }, BACKGROUND)).toEqual({ reason });
+  });
+});
+
+describe('decayValue', () => {
+  const result = fitDecay(decay(), { from: START, to: START + 3600 }, BACKGROUND);
+  const fit = 'fit' in result ? result.fit : undefined;
+
+  it.each([
+    [START, BACKGROUND + 1000],
+    [START + 1800, BACKGROUND + 1000 * Math.exp(-1)],
+    [START + 3600, BACKGROUND + 1000 * Math.exp(-2)]
+  ])('follows the curve at %i', (timestamp, expected) => {
+    expect(decayValue(fit!, timestamp)).toBeCloseTo(expected, 6);
+  });
+
+  it.each([START - 1, START + 3601])('has no value outside the fit at %i', timestamp => {
+    expect(decayValue(fit!, timestamp)).toBeUndefined();
+  });
+});
+
+describe('findDecay', () => {
+  // Minute readings: flat, a rise to 1400 ppm, an hour of decay with a small
+  // uptick, then a second rise
+  const minutes = (values: number[], from: number) =>
+    values.map((co2_ppm, i) => ({ timestamp: from + i * 60, co2_ppm, channels: {} }));
+  const flat = Array.from({ length: 30 }, () => 450);
+  const rise = Array.from({ length: 10 }, (_, i) => 450 + (i + 1) * 95);
+  const fall = Array.from({ length: 61 }, (_, i) => Math.round(BACKGROUND + 980 * Math.exp((-2 * i) / 60)));
+  fall[20] = fall[19] + 10;
+  const again = Array.from({ length: 10 }, (_, i) => fall[60] + (i + 1) * 40);
+  const day = minutes([...flat, ...rise, ...fall.slice(1), ...again], START);
+  const peak = START + 39 * 60;
+
+  it('finds the stretch with the largest drop, small upticks aside', () => {
+    expect(findDecay(day, BACKGROUND)).toEqual({ from: peak, to: peak + 60 * 60 });
+  });
+
+  it.each<[string, CO2DataPoint[]]>([
+    ['a drop of less than half the excess', minutes([700, 680, 660, 640, 620, ...Array(11).fill(600)], START)],
+    ['a decay shorter than 15 minutes', minutes(fall.slice(0, 15), START)],
+    ['a start too close to the background', minutes([600, 560, 530, 510, 500, ...Array(11).fill(490)], START)]
+  ])('ignores %s', (_, data) => {
+    expect(findDecay(data, BACKGROUND)).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+// Air change rate from the decay of CO2 once a room is left empty. The excess
+// over outdoor air falls as C(t) = background + excess * exp(-ACH * t), so a
+// straight line through ln(C - background) over hours has a slope of -ACH.
+
+import type { CO2DataPoint, TimeRange } from '@/lib/co2';
+
+// Readings closer to the background than this are mostly sensor noise and
+// would dominate the logarithm
+const MIN_EXCESS_PPM = 20;
+const MIN_FIT_READINGS = 4;
+
+// Auto-detection: a decay starts well above outdoor air, falls by at least
+// half of that and lasts a while; small upticks are noise
+const MIN_START_EXCESS_PPM = 200;
+const MIN_DROP_SHARE = 0.5;
+const MIN_DECAY_SECONDS = 15 * 60;
+const DECAY_NOISE_PPM = 15;
+
+export interface DecayFit extends TimeRange {
+  background: number;
+  // Fitted excess over the background at `from`
+  excess: number;
+  // Air changes per hour, with its 95% confidence interval
+  ach: number;
+  low: number;
+  high: number;
+  rSquared: number;
+  // Readings the fit used
+  count: number;
+}
+
+export type DecayFitResult = { fit: DecayFit } | { reason: string };
+
+// Two-sided 95% quantiles of Student's t for 1 to 30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12,
+  2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+const tQuantile = (degrees: number) => T_95[degrees - 1] ?? 1.96;
+
+export const fitDecay = (data: CO2DataPoint[], { from, to }: TimeRange, background: number): DecayFitResult => {
+  const used = data.filter(
+    point => point.timestamp >= from && point.timestamp <= to && point.co2_ppm - background >= MIN_EXCESS_PPM
+  );
+  if (used.length < MIN_FIT_READINGS) {
+    return { reason: `Need at least ${MIN_FIT_READINGS} readings ${MIN_EXCESS_PPM} ppm above the background` };
+  }
+
+  const xs = used.map(point => (point.timestamp - from) / 3600);
+  const ys = used.map(point => Math.log(point.co2_ppm - background));
+  const n = used.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const syy = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  if (sxx === 0) return { reason: 'The selection covers a single moment' };
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  if (slope >= 0) return { reason: 'CO2 is not falling in the selection' };
+
+  const residual = ys.reduce((sum, y, i) => sum + (y - intercept - slope * xs[i]) ** 2, 0);
+  const standardError = Math.sqrt(residual / (n - 2) / sxx);
+  const margin = tQuantile(n - 2) * standardError;
+  const ach = -slope;
+
+  return {
+    fit: {
+      from,
+      to,
+      background,
+      excess: Math.exp(intercept),
+      ach,
+      low: Math.max(0, ach - margin),
+      high: ach + margin,
+      rSquared: syy > 0 ? 1 - residual / syy : 1,
+      count: n
+    }
+  };
+};
+
+// CO2 on the fitted curve, only within the fitted range
+export const decayValue = (fit: DecayFit, timestamp: number): number | undefined =>
+  timestamp >= fit.from && timestamp <= fit.to
+    ? fit.background + fit.excess * Math.exp((-fit.ach * (timestamp - fit.from)) / 3600)
+    : undefined;
+
+// The decay with the largest drop: a stretch from a reading well above the
+// background that keeps falling, small upticks aside
+export const findDecay = (data: CO2DataPoint[], background: number): TimeRange | undefined => {
+  let best: { range: TimeRange; drop: number } | undefined;
+  let start = 0;
+
+  while (start < data.length - 1) {
+    let end = start;
+    let lowest = start;
+    while (end + 1 < data.length && data[end + 1].co2_ppm <= data[lowest].co2_ppm + DECAY_NOISE_PPM) {
+      end++;
+      if (data[end].co2_ppm < data[lowest].co2_ppm) lowest = end;
+    }
+
+    const first = data[start];
+    const last = data[lowest];
+    const excess = first.co2_ppm - background;
+    const drop = first.co2_ppm - last.co2_ppm;
+    const isDecay =
+      excess >= MIN_START_EXCESS_PPM &&
+      drop >= excess * MIN_DROP_SHARE &&
+      last.timestamp - first.timestamp >= MIN_DECAY_SECONDS &&
+      lowest - start + 1 >= MIN_FIT_READINGS;
+    if (isDecay && (!best || drop > best.drop)) {
+      best = { range: { from: first.timestamp, to: last.timestamp }, drop };
+    }
+
+    start = Math.max(end, start + 1);
+  }
+
+  return best?.range;
+};
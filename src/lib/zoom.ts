@@ -0,0 +1,43 @@
+// Zooming and panning a time range within the span of a session
+
+import type { CO2DataPoint, TimeRange } from '@/lib/co2';
+
+// Narrowest range the chart zooms to, in seconds
+export const MIN_ZOOM_SECONDS = 60;
+
+// Each wheel step narrows or widens the range by this factor
+export const WHEEL_ZOOM_FACTOR = 1.25;
+
+// Each sideways wheel step pans by this share of the range
+export const WHEEL_PAN_SHARE = 0.1;
+
+// Readings within a range, both ends included
+export const readingsIn = (data: CO2DataPoint[], range: TimeRange) =>
+  data.filter(point => point.timestamp >= range.from && point.timestamp <= range.to);
+
+// Moves a range inside `extent` without changing its width where it fits
+const clamp = (from: number, to: number, extent: TimeRange): TimeRange => {
+  const width = Math.min(to - from, extent.to - extent.from);
+  const start = Math.min(Math.max(from, extent.from), extent.to - width);
+  return { from: start, to: start + width };
+};
+
+// Range scaled by `factor` around the time `at`, which stays where it is on screen.
+// Undefined once the range covers the whole extent, i.e. zoomed out fully.
+export const zoomAround = (
+  range: TimeRange,
+  extent: TimeRange,
+  factor: number,
+  at: number
+): TimeRange | undefined => {
+  const width = Math.max(MIN_ZOOM_SECONDS, (range.to - range.from) * factor);
+  if (width >= extent.to - extent.from) return undefined;
+  const fraction = range.to > range.from ? (at - range.from) / (range.to - range.from) : 0.5;
+  return clamp(at - width * fraction, at - width * fraction + width, extent);
+};
+
+// Range moved by a share of its width, e.g. 0.1 pans a tenth to the right
+export const panBy = (range: TimeRange, extent: TimeRange, share: number): TimeRange => {
+  const offset = (range.to - range.from) * share;
+  return clamp(range.from + offset, range.to + offset, extent);
+};
@@ -1,192 +1,796 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, ArrowRight, Zap, Wifi, WifiOff } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle, ArrowLeft, ArrowRight, Download, FolderOpen, Radio, RefreshCw, Settings, Zap } from 'lucide-react';
 import { toast } from 'sonner';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
+import BaselineControls from '@/components/BaselineControls';
+import ChartProcessingControls from '@/components/ChartProcessingControls';
+import ClockIssues from '@/components/ClockIssues';
+import ConnectionControls from '@/components/ConnectionControls';
+import DataQuality from '@/components/DataQuality';
+import RejectedRows from '@/components/RejectedRows';
+import IaqCard from '@/components/IaqCard';
+import OccupancyPanel from '@/components/OccupancyPanel';
+import SegmentationControls from '@/components/SegmentationControls';
+import SessionChart, { type ChartOverlay } from '@/components/SessionChart';
+import SessionEditor from '@/components/SessionEditor';
+import StatisticsCard from '@/components/StatisticsCard';
+import VentilationPanel from '@/components/VentilationPanel';
+import TransferProgress from '@/components/TransferProgress';
+import { useFlipper } from '@/hooks/use-flipper';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import { useTransferProgress } from '@/hooks/use-transfer-progress';
+import {
+  annotationsIn,
+  ANNOTATION_PRESETS,
+  createAnnotation,
+  markersToImport,
+  type Annotation
+} from '@/lib/annotations';
+import {
+  computeBaseline,
+  loadBaselineSettings,
+  saveBaselineSettings,
+  toDifferential,
+  ZERO_BASELINE,
+  type BaselineSettings
+} from '@/lib/baseline';
+import {
+  correctMarkers,
+  correctPoints,
+  findTimestampIssues,
+  hasTimestampIssues,
+  isNewCorrection,
+  suggestCorrections
+} from '@/lib/clock';
+import { deviceTime, mergeChannels, type CO2DataPoint, type LogMarker, type SensorChannel, type TimeRange } from '@/lib/co2';
+import {
+  bandLimits,
+  getFramework,
+  loadFrameworkId,
+  saveFrameworkId,
+  scoreSession,
+  steppedBandLimits,
+  type IaqFrameworkId
+} from '@/lib/iaq';
+import { estimateOccupancy, loadOccupancySettings, saveOccupancySettings, type OccupancySettings } from '@/lib/occupancy';
+import { parseCSV, type CsvRejectedRow } from '@/lib/co2-csv';
+import { checkQuality, usableReadings } from '@/lib/data-quality';
+import { downloadText } from '@/lib/download';
+import { baseName, deviceKey } from '@/lib/flipper';
+import { formatBytes } from '@/lib/format';
+import { deleteCachedLog, loadCachedLog, logCacheKey, saveCachedLog } from '@/lib/log-cache';
+import { syncLog } from '@/lib/log-sync';
+import { loadProcessingSettings, saveProcessingSettings, type ProcessingSettings } from '@/lib/resample';
+import { loadSegmentationRule, saveSegmentationRule, segmentSessions, type SegmentationRule } from '@/lib/segmentation';
+import {
+  addAnnotations,
+  applySessionEdits,
+  EMPTY_EDITS,
+  loadSessionEdits,
+  mergeBetween,
+  removeAnnotation,
+  saveSessionEdits,
+  setClockCorrections,
+  splitAt,
+  trimSession,
+  updateAnnotation,
+  updateDetails,
+  type SessionEdits
+} from '@/lib/session-edits';
+import { sessionToCsv } from '@/lib/session-export';
+import { computeStatistics, loadThresholds, saveThresholds } from '@/lib/statistics';
+import { decayValue, findDecay, fitDecay } from '@/lib/ventilation';
+import { readingsIn } from '@/lib/zoom';
 
-// Type definitions for Web Serial API
-declare global {
-  interface Navigator {
-    serial: Serial;
-  }
-}
+const CO2_LOG_PATH = '/ext/apps_data/co2_logger/co2_log.csv';
+const LIVE_POLL_INTERVAL_MS = 5000;
+// A poll checks size and modification time first, but a log that grew still
+// moves in full since neither transport reads from an offset; polls wait this
+// many times as long as the last one took
+const LIVE_POLL_IDLE_FACTOR = 4;
+// Logs from this size on take long enough to transfer that live mode warns about it
+const LIVE_LARGE_LOG_BYTES = 256 * 1024;
+// Rolling chart windows offered in live mode, in minutes
+const LIVE_WINDOWS = [5, 15, 30, 60];
+// Shared by the session chart and the charts under it, so their tooltips move together
+const CHART_SYNC_ID = 'session';
+// Time either side of a moment annotation when zooming to it
+const ANNOTATION_CONTEXT_SECONDS = 15 * 60;
 
-interface Serial {
-  requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
-  getPorts(): Promise<SerialPort[]>;
+interface LoadedLog {
+  points: CO2DataPoint[];
+  markers: LogMarker[];
 }
 
-interface SerialPortRequestOptions {
-  filters?: SerialPortFilter[];
-}
+const EMPTY_LOG: LoadedLog = { points: [], markers: [] };
 
-interface SerialPortFilter {
-  usbVendorId?: number;
-  usbProductId?: number;
-}
+const Index = () => {
+  const { transport, isConnected, run, clockCheck } = useFlipper();
+  const { settings: timeSettings, format } = useTimeFormat();
+  const [searchParams] = useSearchParams();
+  const logPath = searchParams.get('file') ?? CO2_LOG_PATH;
+  const [log, setLog] = useState<LoadedLog>(EMPTY_LOG);
+  const [rule, setRule] = useState<SegmentationRule>(loadSegmentationRule);
+  const [edits, setEdits] = useState<SessionEdits>(EMPTY_EDITS);
+  const [rejectedRows, setRejectedRows] = useState<CsvRejectedRow[]>([]);
+  const [channels, setChannels] = useState<SensorChannel[]>([]);
+  // Clamped to the sessions there are; Infinity follows the newest session
+  const [currentSessionIndex, setCurrentSessionIndex] = useState(Infinity);
+  // Reading picked on the chart for splitting or trimming
+  const [pickedPoint, setPickedPoint] = useState<CO2DataPoint | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  // Size of the log file on the device at the last sync
+  const [logSize, setLogSize] = useState<number>();
+  const [liveWindowMinutes, setLiveWindowMinutes] = useState(15);
+  const [excludeFlagged, setExcludeFlagged] = useState(false);
+  const [thresholds, setThresholds] = useState(loadThresholds);
+  // Decay picked for the ventilation fit, with the key of its session
+  const [decayRange, setDecayRange] = useState<(TimeRange & { key: string }) | null>(null);
+  const [isSelectingDecay, setIsSelectingDecay] = useState(false);
+  // Range zoomed into on the chart, with the key of its session
+  const [view, setView] = useState<(TimeRange & { key: string }) | null>(null);
+  // Clicks and drags on the chart add annotations with this label
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationLabel, setAnnotationLabel] = useState(ANNOTATION_PRESETS[0]);
+  const [baselineSettings, setBaselineSettings] = useState(loadBaselineSettings);
+  const [occupancySettings, setOccupancySettings] = useState(loadOccupancySettings);
+  const [frameworkId, setFrameworkId] = useState<IaqFrameworkId>(loadFrameworkId);
+  const [showBands, setShowBands] = useState(true);
+  const [processing, setProcessing] = useState(loadProcessingSettings);
+  // Cache key of the log whose sessions are on screen
+  const loadedKeyRef = useRef<string | null>(null);
+  // Latest readings for syncs started from a polling loop's stale closure
+  const logRef = useRef<LoadedLog>(EMPTY_LOG);
+  // Set while a sync runs, so polls and other syncs don't queue up behind it
+  const syncingRef = useRef(false);
+  // Cancels the transfer shown in the progress card
+  const transferRef = useRef<AbortController | null>(null);
+  const transferProgress = useTransferProgress();
 
-interface SerialPort {
-  open(options: { baudRate: number }): Promise<void>;
-  close(): Promise<void>;
-  getInfo(): SerialPortInfo;
-  readable: ReadableStream<Uint8Array> | null;
-  writable: WritableStream<Uint8Array> | null;
-}
+  useEffect(() => {
+    logRef.current = log;
+  }, [log]);
 
-interface SerialPortInfo {
-  usbVendorId?: number;
-  usbProductId?: number;
-}
+  // A picked reading belongs to the session it was picked in
+  useEffect(() => {
+    setPickedPoint(null);
+  }, [currentSessionIndex]);
 
-interface CO2DataPoint {
-  timestamp: string;
-  co2_ppm: number;
-  formattedTime: string;
-}
+  // Readings on the corrected timeline; the cached log keeps what the device wrote
+  const corrected = useMemo(
+    () => ({ points: correctPoints(log.points, edits.clock), markers: correctMarkers(log.markers, edits.clock) }),
+    [log, edits.clock]
+  );
 
-interface LoggingSession {
-  id: number;
-  startTime: string;
-  endTime: string;
-  data: CO2DataPoint[];
-}
+  const sessions = useMemo(
+    () =>
+      applySessionEdits(
+        segmentSessions(corrected.points, rule, { markers: corrected.markers, edits, dayOf: format.day }),
+        edits
+      ),
+    [corrected, rule, edits, format]
+  );
 
-const Index = () => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [sessions, setSessions] = useState<LoggingSession[]>([]);
-  const [currentSessionIndex, setCurrentSessionIndex] = useState(0);
-  const [flipperPort, setFlipperPort] = useState<SerialPort | null>(null);
-  const readerRef = useRef<ReadableStreamDefaultReader | null>(null);
-  const writerRef = useRef<WritableStreamDefaultWriter | null>(null);
-
-  // Request permission to access Flipper Zero
-  const requestFlipperPort = async (): Promise<SerialPort | null> => {
+  const timestampIssues = useMemo(
+    () => findTimestampIssues(corrected.points, clockCheck ?? undefined),
+    [corrected, clockCheck]
+  );
+  const clockCorrections = useMemo(
+    () => suggestCorrections(log.points, clockCheck ?? undefined, timeSettings.clockOffsetSeconds),
+    [log, clockCheck, timeSettings.clockOffsetSeconds]
+  );
+  const canCorrectClock = isNewCorrection(clockCorrections, edits.clock);
+
+  // Sync the CO2 log from Flipper Zero, skipping the transfer when it is unchanged.
+  // Quiet syncs only report problems; resolves to false when the sync failed.
+  // A sync already under way is not started again.
+  const readFlipperFile = async ({ quiet = false, signal }: { quiet?: boolean; signal?: AbortSignal } = {}) => {
+    if (syncingRef.current) return true;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    // Only syncs the user started get a progress card and can be cancelled from it
+    const transfer = quiet ? null : new AbortController();
+    if (transfer) {
+      transferRef.current = transfer;
+      transferProgress.start();
+    }
     try {
-      const port = await navigator.serial.requestPort({
-        filters: [{ usbVendorId: 0x0483, usbProductId: 0x5740 }]
-      });
-      return port;
+      const { base, result } = await run(
+        async (transport, options) => {
+          const key = logCacheKey(deviceKey(await transport.deviceInfo(options)), logPath);
+          const cached = await loadCachedLog(key);
+
+          // Show what we already have while the device is checked for new rows
+          let base = logRef.current;
+          if (loadedKeyRef.current !== key) {
+            const parsed = cached ? parseCSV(cached.text) : { ...EMPTY_LOG, rejected: [], channels: [] };
+            base = { points: parsed.points, markers: parsed.markers };
+            setLog(base);
+            setRejectedRows(parsed.rejected);
+            setChannels(parsed.channels);
+            setEdits(loadSessionEdits(key));
+            setCurrentSessionIndex(Infinity);
+          }
+          loadedKeyRef.current = key;
+
+          return { base, result: await syncLog(transport, key, logPath, cached, options) };
+        },
+        // Large logs take a while; the transport still fails if the device goes quiet
+        { timeoutMs: 0, signal: transfer?.signal ?? signal, onProgress: transfer ? transferProgress.onProgress : undefined }
+      );
+
+      setLogSize(result.log.size);
+      if (result.mode === 'unchanged') {
+        if (!quiet) toast.success(`Log is up to date (${result.log.rows} rows)`);
+        return true;
+      }
+
+      const append = result.mode === 'append';
+      const updated = {
+        points: append ? [...base.points, ...result.points] : result.points,
+        markers: append ? [...base.markers, ...result.markers] : result.markers
+      };
+      setRejectedRows(rows => (append ? [...rows, ...result.rejected] : result.rejected));
+      setChannels(known => (append ? mergeChannels(known, result.channels) : result.channels));
+      logRef.current = updated;
+      setLog(updated);
+      setCurrentSessionIndex(Infinity);
+      await saveCachedLog(result.log);
+
+      if (quiet) {
+        return true;
+      } else if (updated.points.length === 0) {
+        toast.warning('No CO2 data found in log file');
+      } else if (result.mode === 'append') {
+        // The device cannot read from an offset, so growing the cache still moved the whole file
+        toast.success(`Synced ${result.points.length} new row(s)`, {
+          description: `The whole ${formatBytes(result.log.size)} log was transferred; only new rows were parsed`
+        });
+      } else {
+        toast.success(`Loaded ${updated.points.length} reading(s)`);
+      }
+      return true;
     } catch (err) {
-      console.error('No Flipper Zero or permission denied:', err);
-      return null;
+      if (transfer?.signal.aborted) {
+        toast.info('Transfer cancelled');
+        return false;
+      }
+      if (signal?.aborted) return false;
+      console.error('Failed to read CO2 log:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read CO2 log');
+      return false;
+    } finally {
+      if (transfer) {
+        transferRef.current = null;
+        transferProgress.finish();
+      }
+      syncingRef.current = false;
+      setIsSyncing(false);
     }
   };
 
-  // Auto-detect previously granted Flipper ports
-  const findGrantedFlippers = async (): Promise<SerialPort[]> => {
-    const ports = await navigator.serial.getPorts();
-    return ports.filter(port => {
-      const info = port.getInfo();
-      return info.usbVendorId === 0x0483 && info.usbProductId === 0x5740;
-    });
+  // Forget the cached copy and download the whole log again
+  const resyncFlipperFile = async () => {
+    if (!transport || !loadedKeyRef.current) return;
+    try {
+      await deleteCachedLog(loadedKeyRef.current);
+    } catch (err) {
+      console.error('Failed to clear cached log:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to clear cached log');
+      return;
+    }
+    loadedKeyRef.current = null;
+    await readFlipperFile();
   };
 
-  // Open the serial port
-  const openFlipperPort = async (port: SerialPort) => {
-    await port.open({ baudRate: 230400 });
-    console.log('Flipper Zero opened at 230400 baud');
-    return {
-      reader: port.readable!.getReader(),
-      writer: port.writable!.getWriter()
-    };
-  };
+  // Effects call the latest sync through this, so they only re-run for what should trigger a sync
+  const readFlipperFileRef = useRef(readFlipperFile);
+  useEffect(() => {
+    readFlipperFileRef.current = readFlipperFile;
+  });
 
-  // Parse CSV data into sessions
-  const parseCSVData = (csvContent: string): LoggingSession[] => {
-    const lines = csvContent.split('\n').filter(line => line.trim());
-    if (lines.length <= 1) return []; // No data or just header
-
-    const dataPoints: CO2DataPoint[] = [];
-    
-    // Skip header line
-    for (let i = 1; i < lines.length; i++) {
-      const [timestamp, co2_ppm] = lines[i].split(',');
-      if (timestamp && co2_ppm) {
-        const date = new Date(parseInt(timestamp) * 1000);
-        dataPoints.push({
-          timestamp,
-          co2_ppm: parseInt(co2_ppm),
-          formattedTime: date.toLocaleTimeString()
-        });
-      }
+  // Load the selected log whenever a connection becomes available or another file is picked
+  useEffect(() => {
+    if (transport) {
+      readFlipperFileRef.current();
     }
+  }, [transport, logPath]);
+
+  // Live mode: poll the log and append new readings until stopped or a sync fails
+  useEffect(() => {
+    if (!isLive || !transport) return;
 
-    // Group into sessions (separated by more than 5 minutes)
-    const sessions: LoggingSession[] = [];
-    let currentSession: CO2DataPoint[] = [];
-    
-    for (let i = 0; i < dataPoints.length; i++) {
-      const point = dataPoints[i];
-      
-      if (currentSession.length === 0) {
-        currentSession.push(point);
+    // Stopping live mode also cancels a poll that is under way
+    const polling = new AbortController();
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      const started = Date.now();
+      const ok = await readFlipperFileRef.current({ quiet: true, signal: polling.signal });
+      if (polling.signal.aborted) return;
+      if (ok) {
+        timer = setTimeout(poll, Math.max(LIVE_POLL_INTERVAL_MS, (Date.now() - started) * LIVE_POLL_IDLE_FACTOR));
       } else {
-        const lastPoint = currentSession[currentSession.length - 1];
-        const timeDiff = parseInt(point.timestamp) - parseInt(lastPoint.timestamp);
-        
-        if (timeDiff > 300) { // 5 minutes = 300 seconds
-          // Start new session
-          const startTime = new Date(parseInt(currentSession[0].timestamp) * 1000);
-          const endTime = new Date(parseInt(lastPoint.timestamp) * 1000);
-          
-          sessions.push({
-            id: sessions.length,
-            startTime: startTime.toLocaleString(),
-            endTime: endTime.toLocaleString(),
-            data: [...currentSession]
-          });
-          
-          currentSession = [point];
-        } else {
-          currentSession.push(point);
-        }
+        setIsLive(false);
       }
+    };
+    timer = setTimeout(poll, LIVE_POLL_INTERVAL_MS);
+
+    return () => {
+      polling.abort();
+      clearTimeout(timer);
+    };
+  }, [isLive, transport, logPath]);
+
+  useEffect(() => {
+    if (!isConnected) setIsLive(false);
+  }, [isConnected]);
+
+  const sessionIndex = Math.max(0, Math.min(currentSessionIndex, sessions.length - 1));
+  const currentSession = sessions[sessionIndex];
+  // The picked reading, while it lies in the session on screen
+  const sessionPoint =
+    pickedPoint &&
+    currentSession &&
+    pickedPoint.timestamp >= currentSession.start &&
+    pickedPoint.timestamp <= currentSession.end
+      ? pickedPoint
+      : null;
+  const quality = useMemo(() => (currentSession ? checkQuality(currentSession.data) : undefined), [currentSession]);
+  // Live mode always follows the newest readings
+  const sessionView = view && view.key === currentSession?.key && !isLive ? view : undefined;
+  // Readings of the zoomed range, or of the whole session
+  const selected = useMemo(
+    () => (currentSession ? (sessionView ? readingsIn(currentSession.data, sessionView) : currentSession.data) : []),
+    [currentSession, sessionView]
+  );
+  const sessionSpan = currentSession ? { from: currentSession.start, to: currentSession.end } : undefined;
+  const sessionAnnotations = sessionSpan ? annotationsIn(edits.annotations, sessionSpan) : [];
+  const importableMarkers = sessionSpan ? markersToImport(corrected.markers, edits.annotations, sessionSpan) : [];
+  // Readings the statistics and scores are based on
+  const usable = useMemo(
+    () => (quality ? usableReadings(selected, quality, excludeFlagged) : []),
+    [selected, quality, excludeFlagged]
+  );
+  // Faulty readings such as a 0 would drag a minimum or percentile down
+  const baseline = useMemo(
+    () =>
+      computeBaseline(
+        currentSession && quality ? currentSession.data.filter(point => quality.flags.get(point) !== 'range') : [],
+        baselineSettings.method
+      ),
+    [currentSession, quality, baselineSettings.method]
+  );
+  const { differential } = baselineSettings;
+  // The usable readings as analysed: absolute, or above the baseline
+  const analysed = useMemo(
+    () => (differential ? toDifferential(usable, baseline) : usable),
+    [usable, baseline, differential]
+  );
+  const statistics = useMemo(() => computeStatistics(analysed, thresholds), [analysed, thresholds]);
+  const framework = useMemo(() => getFramework(frameworkId, thresholds), [frameworkId, thresholds]);
+  const iaqScore = useMemo(
+    () =>
+      analysed.length > 0
+        ? scoreSession(analysed, framework, differential ? ZERO_BASELINE.at : baseline.at)
+        : undefined,
+    [analysed, framework, differential, baseline]
+  );
+  const sessionDecay = decayRange && decayRange.key === currentSession?.key ? decayRange : undefined;
+  const decayFit = useMemo(
+    () =>
+      currentSession && sessionDecay
+        ? fitDecay(currentSession.data, sessionDecay, baseline.at(sessionDecay.to))
+        : undefined,
+    [currentSession, sessionDecay, baseline]
+  );
+  const occupancy = useMemo(
+    () => (currentSession ? estimateOccupancy(currentSession.data, occupancySettings, baseline.at) : undefined),
+    [currentSession, occupancySettings, baseline]
+  );
+
+  const changeRule = (updated: SegmentationRule) => {
+    setRule(updated);
+    saveSegmentationRule(updated);
+    setPickedPoint(null);
+  };
+
+  // Edits are stored apart from the cached log, so a re-sync keeps them
+  const changeEdits = (updated: SessionEdits) => {
+    setEdits(updated);
+    if (loadedKeyRef.current) saveSessionEdits(loadedKeyRef.current, updated);
+    setPickedPoint(null);
+  };
+
+  const splitAtPoint = () => {
+    if (!sessionPoint) return;
+    changeEdits(splitAt(edits, deviceTime(sessionPoint)));
+    setCurrentSessionIndex(sessionIndex + 1);
+  };
+
+  const trimToPoint = () => {
+    if (!sessionPoint || !currentSession) return;
+    changeEdits(trimSession(edits, currentSession.key, deviceTime(sessionPoint)));
+  };
+
+  const mergeWithNext = () => {
+    const next = sessions[sessionIndex + 1];
+    if (!currentSession || !next) return;
+    const last = currentSession.data[currentSession.data.length - 1];
+    changeEdits(mergeBetween(edits, deviceTime(last), parseInt(next.key)));
+  };
+
+  const changeThresholds = (updated: number[]) => {
+    setThresholds(updated);
+    saveThresholds(updated);
+  };
+
+  const findSessionDecay = () => {
+    if (!currentSession) return;
+    const found = findDecay(currentSession.data, baseline.level);
+    if (found) {
+      setDecayRange({ ...found, key: currentSession.key });
+    } else {
+      toast.info('No clear CO2 decay found in this session');
     }
-    
-    // Don't forget the last session
-    if (currentSession.length > 0) {
-      const startTime = new Date(parseInt(currentSession[0].timestamp) * 1000);
-      const endTime = new Date(parseInt(currentSession[currentSession.length - 1].timestamp) * 1000);
-      
-      sessions.push({
-        id: sessions.length,
-        startTime: startTime.toLocaleString(),
-        endTime: endTime.toLocaleString(),
-        data: [...currentSession]
-      });
-    }
-    
-    return sessions;
   };
 
-  // Read file from Flipper Zero with simplified response logging
-  const readFlipperFile = async () => {
-    if (!writerRef.current || !readerRef.current) return;
+  const changeBaselineSettings = (updated: BaselineSettings) => {
+    setBaselineSettings(updated);
+    saveBaselineSettings(updated);
+  };
+
+  const changeFramework = (id: IaqFrameworkId) => {
+    setFrameworkId(id);
+    saveFrameworkId(id);
+  };
 
-    try {
-      // Send command to read the CO2 logger file
-      const command = 'storage read /ext/apps_data/co2_logger/co2_log.csv\n';
-      console.log('=== SENDING COMMAND ===');
-      console.log('Command:', JSON.stringify(command));
-      
-      await writerRef.current.write(new TextEncoder().encode(command));
-      
-      console.log('=== READING RESPONSE ===');
-      
-      let fullResponse = '';
-      let timeout = setTimeout(() => {
-        console.log('=== TIMEOUT REACHED ===');
-        console.log('Full response received:', JSON.stringify(fullResponse));
-        toast.error('Timeout waiting for response');
-      }, 10000); // 10 second timeout
-      
-      // Read for 10 seconds and log everything
-      const startTime = Date.now();
-      while (Date.now() - startTime < 10000) {
-        try {
-          const result = await Promise.race([
-            readerRef.current.read(),
-            new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Read timeout')), 1000))
-          ]);
+  const changeOccupancySettings = (updated: OccupancySettings) => {
+    setOccupancySettings(updated);
+    saveOccupancySettings(updated);
+  };
+
+  const changeProcessing = (updated: ProcessingSettings) => {
+    setProcessing(updated);
+    saveProcessingSettings(updated);
+  };
+
+  // Every reading of the session or zoomed range, however the chart resamples or thins them
+  const exportSession = () => {
+    if (!currentSession || !sessionSpan) return;
+    const name = sessionView
+      ? `co2-session-${currentSession.key}-${sessionView.from}-${sessionView.to}`
+      : `co2-session-${currentSession.key}`;
+    const annotations = annotationsIn(edits.annotations, sessionView ?? sessionSpan);
+    downloadText(sessionToCsv(selected, channels, annotations), `${name}.csv`, 'text/csv');
+  };
+
+  const changeView = (range: TimeRange | undefined) => {
+    setView(range && currentSession ? { ...range, key: currentSession.key } : null);
+  };
+
+  // Only one of the chart's drag modes is on at a time
+  const changeAnnotating = (annotating: boolean) => {
+    setIsAnnotating(annotating);
+    if (annotating) setIsSelectingDecay(false);
+  };
+
+  const changeSelectingDecay = (selecting: boolean) => {
+    setIsSelectingDecay(selecting);
+    if (selecting) setIsAnnotating(false);
+  };
+
+  const annotate = (at: TimeRange | number) => {
+    changeEdits(addAnnotations(edits, [createAnnotation(annotationLabel.trim() || 'Note', at)]));
+  };
+
+  const importMarkers = () => {
+    const imported = importableMarkers.map(marker => createAnnotation(marker.label, marker.timestamp));
+    changeEdits(addAnnotations(edits, imported));
+    toast.success(`Imported ${importableMarkers.length} marker(s)`);
+  };
+
+  // A moment is shown with some context either side, a span with a margin
+  const showAnnotation = (annotation: Annotation) => {
+    const margin = annotation.to === undefined ? ANNOTATION_CONTEXT_SECONDS : (annotation.to - annotation.from) / 4;
+    changeView({ from: annotation.from - margin, to: (annotation.to ?? annotation.from) + margin });
+  };
+
+  const correctClock = () => {
+    changeEdits(setClockCorrections(edits, clockCorrections));
+    toast.success('Timestamps corrected');
+  };
+
+  const overlays: ChartOverlay[] = [];
+  if (decayFit && 'fit' in decayFit) {
+    const { fit } = decayFit;
+    overlays.push({
+      key: 'decay',
+      name: 'Decay fit',
+      color: 'hsl(50 90% 55%)',
+      value: point => decayValue(fit, point.timestamp)
+    });
+  }
+
+  // In live mode only the most recent readings are charted
+  const chartData = (() => {
+    if (!currentSession || !isLive) return selected;
+    const cutoff = currentSession.end - liveWindowMinutes * 60;
+    return currentSession.data.filter(point => point.timestamp >= cutoff);
+  })();
+
+  // Bands against the outdoor level the score uses; a rolling baseline moves them over time
+  const chartBands = (() => {
+    if (differential || baselineSettings.method.kind !== 'rolling' || chartData.length < 2) {
+      return bandLimits(framework, differential ? 0 : baseline.level);
+    }
+    const range = { from: chartData[0].timestamp, to: chartData[chartData.length - 1].timestamp };
+    return steppedBandLimits(framework, baseline.at, range);
+  })();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Zap className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl md:text-3xl font-bold matrix-text">Flipper Zero CO2 Monitor</h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Switch id="live-mode" checked={isLive} onCheckedChange={setIsLive} disabled={!isConnected} />
+              <Label htmlFor="live-mode" className="flex items-center gap-1">
+                <Radio className={isLive ? 'h-4 w-4 text-primary animate-pulse' : 'h-4 w-4'} />
+                Live
+              </Label>
+            </div>
+            {isLive && (
+              <Select value={String(liveWindowMinutes)} onValueChange={value => setLiveWindowMinutes(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIVE_WINDOWS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      Last {minutes}m
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="outline"
+              size="icon"
+              className="flipper-button"
+              onClick={resyncFlipperFile}
+              disabled={!isConnected || isSyncing || isLive}
+              title="Download the whole log again"
+            >
+              <RefreshCw className={isSyncing ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+            </Button>
+            <Button variant="outline" className="flipper-button" asChild>
+              <Link to="/storage">
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Browse SD card
+              </Link>
+            </Button>
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/settings" title="Settings">
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
+            <ConnectionControls />
+          </div>
+        </header>
+
+        {transferProgress.stats && (
+          <TransferProgress
+            label={`Reading ${baseName(logPath)}`}
+            stats={transferProgress.stats}
+            onCancel={() => transferRef.current?.abort()}
+          />
+        )}
+
+        {isLive && logSize !== undefined && logSize >= LIVE_LARGE_LOG_BYTES && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Live updates transfer the whole log</AlertTitle>
+            <AlertDescription>
+              The Flipper cannot send only the new rows, so every update moves all {formatBytes(logSize)} of{' '}
+              {baseName(logPath)} and updates come further apart as it grows. Start a new log file on the logger to keep
+              live mode quick.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {rejectedRows.length > 0 && <RejectedRows rows={rejectedRows} />}
+
+        {(hasTimestampIssues(timestampIssues) || canCorrectClock || edits.clock.length > 0) && (
+          <ClockIssues
+            issues={timestampIssues}
+            check={clockCheck}
+            shownOffset={timeSettings.clockOffsetSeconds}
+            canCorrect={canCorrectClock}
+            isCorrected={edits.clock.length > 0}
+            onCorrect={correctClock}
+            onUndo={() => changeEdits(setClockCorrections(edits, []))}
+          />
+        )}
+
+        <SegmentationControls rule={rule} onChange={changeRule} />
+
+        <BaselineControls
+          settings={baselineSettings}
+          onChange={changeBaselineSettings}
+          level={currentSession ? baseline.level : undefined}
+        />
+
+        {currentSession ? (
+          <Card className="session-transition">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCurrentSessionIndex(sessionIndex - 1)}
+                disabled={sessionIndex === 0}
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="text-center">
+                <CardTitle>
+                  {currentSession.name ?? `Session ${sessionIndex + 1} of ${sessions.length}`}
+                  {currentSession.name && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {sessionIndex + 1} of {sessions.length}
+                    </span>
+                  )}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground" title={logPath}>
+                  {baseName(logPath)}
+                  {currentSession.location && ` · ${currentSession.location}`}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {format.dateTime(currentSession.start)} - {format.dateTime(currentSession.end)}
+                </p>
+                {currentSession.notes && (
+                  <p className="mt-1 max-w-xl text-xs text-muted-foreground whitespace-pre-line">{currentSession.notes}</p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCurrentSessionIndex(sessionIndex + 1)}
+                disabled={sessionIndex === sessions.length - 1}
+              >
+                <ArrowRight className="h-5 w-5" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <ChartProcessingControls settings={processing} onChange={changeProcessing} />
+                <Button variant="outline" size="sm" onClick={exportSession}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {sessionView ? 'Export range' : 'Export CSV'}
+                </Button>
+              </div>
+              <SessionChart
+                data={chartData}
+                channels={channels}
+                processing={processing}
+                animate={!isLive}
+                syncId={CHART_SYNC_ID}
+                quality={quality}
+                overlays={overlays}
+                bands={showBands && iaqScore ? chartBands : undefined}
+                baseline={differential ? baseline.at : undefined}
+                selection={sessionDecay}
+                annotations={sessionAnnotations}
+                overview={currentSession.data}
+                view={sessionView}
+                onViewChange={isLive ? undefined : changeView}
+                onRangeSelect={
+                  isSelectingDecay
+                    ? range => {
+                        setDecayRange({ ...range, key: currentSession.key });
+                        setIsSelectingDecay(false);
+                      }
+                    : isAnnotating
+                      ? annotate
+                      : undefined
+                }
+                onPointClick={isAnnotating ? point => annotate(point.timestamp) : setPickedPoint}
+              />
+              {quality && (
+                <DataQuality
+                  quality={quality}
+                  readings={currentSession.data.length}
+                  excludeFlagged={excludeFlagged}
+                  onExcludeFlaggedChange={setExcludeFlagged}
+                />
+              )}
+              <VentilationPanel
+                result={decayFit}
+                background={decayFit && 'fit' in decayFit ? decayFit.fit.background : baseline.level}
+                isSelecting={isSelectingDecay}
+                onSelectingChange={changeSelectingDecay}
+                onAutoDetect={findSessionDecay}
+                onClear={() => setDecayRange(null)}
+              />
+              {occupancy && (
+                <OccupancyPanel
+                  data={chartData}
+                  estimate={occupancy}
+                  settings={occupancySettings}
+                  onSettingsChange={changeOccupancySettings}
+                  fittedAch={decayFit && 'fit' in decayFit ? decayFit.fit.ach : undefined}
+                  syncId={CHART_SYNC_ID}
+                />
+              )}
+              <AnnotationsPanel
+                annotations={sessionAnnotations}
+                label={annotationLabel}
+                onLabelChange={setAnnotationLabel}
+                isAdding={isAnnotating}
+                onAddingChange={changeAnnotating}
+                importable={importableMarkers.length}
+                onImport={importMarkers}
+                onChange={annotation => changeEdits(updateAnnotation(edits, annotation))}
+                onRemove={id => changeEdits(removeAnnotation(edits, id))}
+                onShow={showAnnotation}
+              />
+              <SessionEditor
+                session={currentSession}
+                point={sessionPoint}
+                isTrimmed={edits.trims[currentSession.key] !== undefined}
+                canMerge={sessionIndex < sessions.length - 1}
+                onSplit={splitAtPoint}
+                onTrim={trimToPoint}
+                onResetTrim={() => changeEdits(trimSession(edits, currentSession.key))}
+                onMerge={mergeWithNext}
+                onDetailsChange={details => changeEdits(updateDetails(edits, currentSession.key, details))}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-16 text-center text-muted-foreground">
+              {isConnected
+                ? 'No logging sessions found on the device.'
+                : 'Connect your Flipper Zero to load CO2 logging sessions.'}
+            </CardContent>
+          </Card>
+        )}
+
+        {statistics && (
+          <StatisticsCard
+            statistics={statistics}
+            thresholds={thresholds}
+            onThresholdsChange={changeThresholds}
+            excludesFlagged={excludeFlagged && quality !== undefined && quality.flags.size > 0}
+            differential={differential}
+            range={sessionView}
+          />
+        )}
+
+        {iaqScore && (
+          <IaqCard
+            framework={framework}
+            score={iaqScore}
+            onFrameworkChange={changeFramework}
+            showBands={showBands}
+            onShowBandsChange={setShowBands}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Index;
@@ -0,0 +1,251 @@
+import { Link } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, Plus, Settings as SettingsIcon, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import ConnectionControls from '@/components/ConnectionControls';
+import TimeSettingsCard from '@/components/TimeSettingsCard';
+import { useFlipper } from '@/hooks/use-flipper';
+import {
+  BAUD_RATES,
+  DEFAULT_SERIAL_SETTINGS,
+  FLOW_CONTROLS,
+  formatUsbId,
+  type SerialSettings
+} from '@/lib/serial-settings';
+
+const usbIdField = z
+  .string()
+  .trim()
+  .regex(/^(0x)?[0-9a-f]{1,4}$/i, 'Up to four hex digits, e.g. 0x0483');
+
+// The form edits USB IDs as hex text; they are stored as numbers
+const formSchema = z.object({
+  baudRate: z.coerce.number().int().positive('Baud rate must be positive'),
+  bufferSize: z.coerce
+    .number()
+    .int()
+    .min(64, 'At least 64 bytes')
+    .max(16 * 1024 * 1024, 'At most 16 MiB'),
+  flowControl: z.enum(FLOW_CONTROLS),
+  usbFilters: z
+    .array(z.object({ vendorId: usbIdField, productId: usbIdField.or(z.literal('')) }))
+    .min(1, 'Allow at least one device')
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const FLOW_CONTROL_LABELS: Record<SerialSettings['flowControl'], string> = {
+  none: 'None',
+  hardware: 'Hardware (RTS/CTS)'
+};
+
+const parseUsbId = (value: string) => parseInt(value.replace(/^0x/i, ''), 16);
+
+const toFormValues = (settings: SerialSettings): FormValues => ({
+  baudRate: settings.baudRate,
+  bufferSize: settings.bufferSize,
+  flowControl: settings.flowControl,
+  usbFilters: settings.usbFilters.map(filter => ({
+    vendorId: formatUsbId(filter.usbVendorId),
+    productId: filter.usbProductId !== undefined ? formatUsbId(filter.usbProductId) : ''
+  }))
+});
+
+const toSettings = (values: FormValues): SerialSettings => ({
+  baudRate: values.baudRate,
+  bufferSize: values.bufferSize,
+  flowControl: values.flowControl,
+  usbFilters: values.usbFilters.map(filter => ({
+    usbVendorId: parseUsbId(filter.vendorId),
+    usbProductId: filter.productId ? parseUsbId(filter.productId) : undefined
+  }))
+});
+
+const Settings = () => {
+  const { settings, updateSettings, isConnected } = useFlipper();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(settings)
+  });
+  const filters = useFieldArray({ control: form.control, name: 'usbFilters' });
+
+  const save = (values: FormValues) => {
+    const updated = toSettings(values);
+    updateSettings(updated);
+    form.reset(toFormValues(updated));
+    toast.success(isConnected ? 'Settings saved; reconnect to apply them' : 'Settings saved');
+  };
+
+  const restoreDefaults = () => form.reset(toFormValues(DEFAULT_SERIAL_SETTINGS), { keepDefaultValues: true });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" title="Back to explorer">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <SettingsIcon className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl md:text-3xl font-bold matrix-text">Settings</h1>
+          </div>
+          <ConnectionControls />
+        </header>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(save)} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Serial port</CardTitle>
+                <CardDescription>
+                  Flipper Zero ignores these over USB; other boards may need them to match their firmware.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="baudRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Baud rate</FormLabel>
+                      <FormControl>
+                        <Input type="number" list="baud-rates" {...field} />
+                      </FormControl>
+                      <datalist id="baud-rates">
+                        {BAUD_RATES.map(rate => (
+                          <option key={rate} value={rate} />
+                        ))}
+                      </datalist>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bufferSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Buffer size (bytes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="flowControl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Flow control</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {FLOW_CONTROLS.map(mode => (
+                            <SelectItem key={mode} value={mode}>
+                              {FLOW_CONTROL_LABELS[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Allowed devices</CardTitle>
+                <CardDescription>
+                  USB vendor and product IDs offered when connecting. Leave the product empty to allow any device
+                  from a vendor.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {filters.fields.map((item, index) => (
+                  <div key={item.id} className="flex items-start gap-3">
+                    <FormField
+                      control={form.control}
+                      name={`usbFilters.${index}.vendorId`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className={index > 0 ? 'sr-only' : undefined}>Vendor ID</FormLabel>
+                          <FormControl>
+                            <Input className="font-mono" placeholder="0x0483" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`usbFilters.${index}.productId`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className={index > 0 ? 'sr-only' : undefined}>Product ID</FormLabel>
+                          <FormControl>
+                            <Input className="font-mono" placeholder="Any" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className={index === 0 ? 'mt-8' : undefined}
+                      onClick={() => filters.remove(index)}
+                      disabled={filters.fields.length === 1}
+                      title="Remove device"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => filters.append({ vendorId: '', productId: '' })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add device
+                </Button>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={restoreDefaults}>
+                Restore defaults
+              </Button>
+              <Button type="submit" className="flipper-button" disabled={!form.formState.isDirty}>
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <TimeSettingsCard />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from "@/components/ui/breadcrumb";
+import { ArrowLeft, FileSpreadsheet, FileText, Folder, HardDrive, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import ConnectionControls from '@/components/ConnectionControls';
+import { useFlipper } from '@/hooks/use-flipper';
+import { useTimeFormat } from '@/hooks/use-time-format';
+import type { FlipperDirEntry } from '@/lib/flipper';
+import { formatBytes } from '@/lib/format';
+
+const STORAGE_ROOT = '/ext';
+
+const isCsv = (entry: FlipperDirEntry) => entry.type === 'file' && entry.name.toLowerCase().endsWith('.csv');
+
+const joinPath = (dir: string, name: string) => `${dir.replace(/\/+$/, '')}/${name}`;
+
+// Resolves `.` and `..` and drops repeated slashes, so `/ext/../int` becomes `/int`
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return `/${parts.join('/')}`;
+};
+
+// Only paths on the SD card; `/extfoo` is not under `/ext`
+const isUnderRoot = (path: string) => path === STORAGE_ROOT || path.startsWith(`${STORAGE_ROOT}/`);
+
+const sortEntries = (entries: FlipperDirEntry[]) =>
+  [...entries].sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'dir' ? -1 : 1));
+
+const Storage = () => {
+  const { transport, isConnected, run } = useFlipper();
+  const { format } = useTimeFormat();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entries, setEntries] = useState<FlipperDirEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const requestedPath = normalizePath(searchParams.get('path') ?? STORAGE_ROOT);
+  const path = isUnderRoot(requestedPath) ? requestedPath : STORAGE_ROOT;
+  const segments = path.slice(STORAGE_ROOT.length).split('/').filter(Boolean);
+
+  // List the directory, then fill in timestamps one entry at a time
+  useEffect(() => {
+    if (!transport) {
+      setEntries([]);
+      return;
+    }
+
+    // Leaving the directory cancels whatever is still queued for it
+    const controller = new AbortController();
+    const { signal } = controller;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const listed = sortEntries(await run((t, options) => t.listDir(path, options), { signal }));
+        setEntries(listed);
+        setIsLoading(false);
+
+        for (const entry of listed) {
+          const entryPath = joinPath(path, entry.name);
+          const modified = await run((t, options) => t.timestamp(entryPath, options), { signal });
+          if (modified === undefined) continue;
+          setEntries(current => current.map(e => (e.name === entry.name ? { ...e, modified } : e)));
+        }
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error('Failed to list directory:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to list directory');
+      } finally {
+        if (!signal.aborted) setIsLoading(false);
+      }
+    };
+    load();
+
+    return () => controller.abort();
+  }, [transport, run, path, reloadCount]);
+
+  const openDir = (dir: string) => setSearchParams({ path: dir });
+
+  const openEntry = (entry: FlipperDirEntry) => {
+    const entryPath = joinPath(path, entry.name);
+    if (entry.type === 'dir') {
+      openDir(entryPath);
+    } else if (isCsv(entry)) {
+      navigate(`/?file=${encodeURIComponent(entryPath)}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" title="Back to explorer">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <HardDrive className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl md:text-3xl font-bold matrix-text">SD Card</h1>
+          </div>
+          <ConnectionControls />
+        </header>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>
+              <Breadcrumb>
+                <BreadcrumbList>
+                  <BreadcrumbItem>
+                    {segments.length === 0 ? (
+                      <BreadcrumbPage>{STORAGE_ROOT}</BreadcrumbPage>
+                    ) : (
+                      <BreadcrumbLink className="cursor-pointer" onClick={() => openDir(STORAGE_ROOT)}>
+                        {STORAGE_ROOT}
+                      </BreadcrumbLink>
+                    )}
+                  </BreadcrumbItem>
+                  {segments.map((segment, i) => {
+                    const segmentPath = [STORAGE_ROOT, ...segments.slice(0, i + 1)].join('/');
+                    return (
+                      <BreadcrumbItem key={segmentPath}>
+                        <BreadcrumbSeparator />
+                        {i === segments.length - 1 ? (
+                          <BreadcrumbPage>{segment}</BreadcrumbPage>
+                        ) : (
+                          <BreadcrumbLink className="cursor-pointer" onClick={() => openDir(segmentPath)}>
+                            {segment}
+                          </BreadcrumbLink>
+                        )}
+                      </BreadcrumbItem>
+                    );
+                  })}
+                </BreadcrumbList>
+              </Breadcrumb>
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setReloadCount(count => count + 1)}
+              disabled={!isConnected || isLoading}
+              title="Refresh"
+            >
+              <RefreshCw className={isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {!isConnected ? (
+              <p className="py-16 text-center text-muted-foreground">
+                Connect your Flipper Zero to browse its SD card.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Size</TableHead>
+                    <TableHead className="text-right">Modified</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 && !isLoading && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-muted-foreground">
+                        Empty directory
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {entries.map(entry => {
+                    const selectable = entry.type === 'dir' || isCsv(entry);
+                    const Icon = entry.type === 'dir' ? Folder : isCsv(entry) ? FileSpreadsheet : FileText;
+                    return (
+                      <TableRow
+                        key={entry.name}
+                        className={selectable ? 'cursor-pointer' : 'text-muted-foreground'}
+                        onClick={() => openEntry(entry)}
+                      >
+                        <TableCell>
+                          <span className="flex items-center gap-2">
+                            <Icon className="h-4 w-4" />
+                            {entry.name}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{formatBytes(entry.size)}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.modified !== undefined ? format.dateTime(entry.modified) : ''}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Storage;